@@ -0,0 +1,28 @@
+import {MetadataStorage} from "../metadata/MetadataStorage";
+
+/**
+ * Options used to pass to sanitization decorators.
+ */
+export interface SanitizationOptions {
+
+    /**
+     * Specifies if sanitized value is an array and each of its item must be sanitized.
+     */
+    each?: boolean;
+
+    /**
+     * Sanitization groups used for this sanitization.
+     */
+    groups?: string[];
+
+    /**
+     * Indicates if sanitization must be performed always, no matter of sanitization groups used.
+     */
+    always?: boolean;
+
+    /**
+     * Storage the sanitization is registered in, instead of the default storage from the container.
+     * Object must be sanitized by the Sanitizer created with the same storage.
+     */
+    metadataStorage?: MetadataStorage;
+}
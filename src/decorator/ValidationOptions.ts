@@ -1,4 +1,6 @@
 import {ValidationArguments} from "../validation/ValidationArguments";
+import {NestedDiscriminatorOptions} from "../validation/ValidationTypeOptions";
+import {MetadataStorage} from "../metadata/MetadataStorage";
 
 /**
  * Options used to pass to validation decorators.
@@ -10,6 +12,12 @@ export interface ValidationOptions {
      */
     each?: boolean;
 
+    /**
+     * Specifies if validated value is a plain object used as a dictionary (e.g. Record<string, Photo>),
+     * so "each" and nested validations are applied to its values, keyed by their keys.
+     */
+    dictionary?: boolean;
+
     /**
      * Error message used to be used on validation fail.
      * Message can be either string, either a function that returns a string.
@@ -26,8 +34,50 @@ export interface ValidationOptions {
      */
     always?: boolean;
 
+    /**
+     * Validations of the property are performed and reported in ascending order of their priority.
+     * By default type checks (e.g. IsString) go before other checks, and custom validations go last.
+     */
+    priority?: number;
+
+    /**
+     * If set to true then remaining validations of the property are skipped when this validation fails.
+     */
+    bail?: boolean;
+
+    /**
+     * If set to true then "each" validation reports its failures per item, as child errors with the item index
+     * (or key of the map entry) as property, e.g. "tags[2]". Overrides the "itemErrors" option of the validator.
+     */
+    itemErrors?: boolean;
+
     /*
      * A transient set of data passed through to the validation result for response mapping
      */
     context?: any;
+
+    /**
+     * Storage the validation is registered in, instead of the default storage from the container.
+     * Object must be validated by the Validator created with the same storage.
+     */
+    metadataStorage?: MetadataStorage;
+}
+
+/**
+ * Options used to pass to ValidateNested decorator.
+ */
+export interface ValidateNestedOptions extends ValidationOptions {
+
+    /**
+     * Selects class nested objects are validated with by the value of their property,
+     * e.g. { property: "type", subTypes: [{ name: "card", value: CardPayment }, { name: "bank", value: BankPayment }] }.
+     * Plain objects are validated as well as class instances.
+     */
+    discriminator?: NestedDiscriminatorOptions;
+
+    /**
+     * Class nested plain objects are validated with, e.g. () => Address.
+     * Class instances are still validated with their own class.
+     */
+    type?: () => Function;
 }
@@ -1,11 +1,14 @@
 import {ValidationTypes} from "../validation/ValidationTypes";
 import {IsNumberOptions} from "../validation/ValidationTypeOptions";
-import {ValidationOptions} from "./ValidationOptions";
+import {ValidationOptions, ValidateNestedOptions} from "./ValidationOptions";
 import {ValidationMetadata} from "../metadata/ValidationMetadata";
 import {ValidationMetadataArgs} from "../metadata/ValidationMetadataArgs";
 import {ConstraintMetadata} from "../metadata/ConstraintMetadata";
-import {getFromContainer} from "../container";
-import {MetadataStorage} from "../metadata/MetadataStorage";
+import {getMetadataStorage, MetadataStorage} from "../metadata/MetadataStorage";
+import {SanitizationOptions} from "./SanitizationOptions";
+import {SanitizationTypes} from "../sanitization/SanitizationTypes";
+import {SanitizationMetadata} from "../metadata/SanitizationMetadata";
+import {SanitizationMetadataArgs} from "../metadata/SanitizationMetadataArgs";
 
 // -------------------------------------------------------------------------
 // System
@@ -14,7 +17,7 @@ import {MetadataStorage} from "../metadata/MetadataStorage";
 /**
  * Registers custom validator class.
  */
-export function ValidatorConstraint(options?: { name?: string, async?: boolean }) {
+export function ValidatorConstraint(options?: { name?: string, async?: boolean, metadataStorage?: MetadataStorage }) {
     return function(target: Function) {
         const isAsync = options && options.async ? true : false;
         let name = options && options.name ? options.name : "";
@@ -24,7 +27,7 @@ export function ValidatorConstraint(options?: { name?: string, async?: boolean }
                 name = name.replace(/\.?([A-Z]+)/g, (x, y) => "_" + y.toLowerCase()).replace(/^_/, "");
         }
         const metadata = new ConstraintMetadata(target, name, isAsync);
-        getFromContainer(MetadataStorage).addConstraintMetadata(metadata);
+        getMetadataStorage(options).addConstraintMetadata(metadata);
     };
 }
 
@@ -44,22 +47,94 @@ export function Validate(constraintClass: Function, constraintsOrValidationOptio
             constraints: constraintsOrValidationOptions instanceof Array ? constraintsOrValidationOptions as any[] : undefined,
             validationOptions: !(constraintsOrValidationOptions instanceof Array) ? constraintsOrValidationOptions as ValidationOptions : maybeValidationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
+    };
+}
+
+/**
+ * Performs validation based on the constraint registered in the ConstraintRegistry under the given name.
+ */
+export function ValidateBy(name: string, validationOptions?: ValidationOptions): Function;
+export function ValidateBy(name: string, constraints?: any[], validationOptions?: ValidationOptions): Function;
+export function ValidateBy(name: string, constraintsOrValidationOptions?: any[]|ValidationOptions, maybeValidationOptions?: ValidationOptions): Function {
+    return function(object: Object, propertyName: string) {
+        const args: ValidationMetadataArgs = {
+            type: name,
+            target: object.constructor,
+            propertyName: propertyName,
+            constraints: constraintsOrValidationOptions instanceof Array ? constraintsOrValidationOptions as any[] : undefined,
+            validationOptions: !(constraintsOrValidationOptions instanceof Array) ? constraintsOrValidationOptions as ValidationOptions : maybeValidationOptions
+        };
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
+    };
+}
+
+/**
+ * Performs validation of the whole object based on the given class-level validation class.
+ * Validation class must be decorated with ValidatorConstraint decorator and implement ClassValidatorConstraintInterface.
+ */
+export function ValidateClass(constraintClass: Function, validationOptions?: ValidationOptions): Function;
+export function ValidateClass(constraintClass: Function, constraints?: any[], validationOptions?: ValidationOptions): Function;
+export function ValidateClass(constraintClass: Function, constraintsOrValidationOptions?: any[]|ValidationOptions, maybeValidationOptions?: ValidationOptions): Function {
+    return function(target: Function) {
+        const args: ValidationMetadataArgs = {
+            type: ValidationTypes.CLASS_VALIDATION,
+            target: target,
+            propertyName: undefined,
+            constraintCls: constraintClass,
+            constraints: constraintsOrValidationOptions instanceof Array ? constraintsOrValidationOptions as any[] : undefined,
+            validationOptions: !(constraintsOrValidationOptions instanceof Array) ? constraintsOrValidationOptions as ValidationOptions : maybeValidationOptions
+        };
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
 /**
  * Objects / object arrays marked with this decorator will also be validated.
  */
-export function ValidateNested(validationOptions?: ValidationOptions) {
+export function ValidateNested(validationOptions?: ValidateNestedOptions) {
     return function (object: Object, propertyName: string) {
         const args: ValidationMetadataArgs = {
             type: ValidationTypes.NESTED_VALIDATION,
             target: object.constructor,
             propertyName: propertyName,
+            validationOptions: validationOptions,
+            validationTypeOptions: validationOptions && (validationOptions.discriminator || validationOptions.type)
+                ? { discriminator: validationOptions.discriminator, type: validationOptions.type }
+                : undefined
+        };
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
+    };
+}
+
+/**
+ * Keys of the map or of the plain object used as a dictionary are validated with the given decorators,
+ * e.g. @ValidateKeys(IsUUID()). Failures are reported per entry, keyed by the entry key.
+ * Key constraints are performed whenever this validation is, groups and "always" option are taken from its options.
+ */
+export function ValidateKeys(decorators: Function|Function[], validationOptions?: ValidationOptions) {
+    return function (object: Object, propertyName: string) {
+        // decorators of the keys are applied to the separate target, so they are not performed on the property value,
+        // and their metadatas are moved from the storages to the constraints of this validation
+        const keysTarget = function() {};
+        (decorators instanceof Array ? decorators : [decorators]).forEach(decorator => decorator.call(undefined, keysTarget.prototype, propertyName));
+        const storages = [getMetadataStorage(), getMetadataStorage(validationOptions)]
+            .filter((storage, index, storages) => storages.indexOf(storage) === index);
+        const keyMetadatas = storages
+            .reduce((metadatas, storage) => metadatas.concat(storage.removeTargetValidationMetadatas(keysTarget)), [] as ValidationMetadata[])
+            .filter(keyMetadata => keyMetadata.type !== ValidationTypes.NESTED_VALIDATION &&
+                keyMetadata.type !== ValidationTypes.PROMISE_VALIDATION &&
+                keyMetadata.type !== ValidationTypes.CONDITIONAL_VALIDATION &&
+                keyMetadata.type !== ValidationTypes.KEYS_VALIDATION);
+
+        const args: ValidationMetadataArgs = {
+            type: ValidationTypes.KEYS_VALIDATION,
+            target: object.constructor,
+            propertyName: propertyName,
+            constraints: keyMetadatas,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -74,7 +149,7 @@ export function ValidatePromise(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -89,7 +164,7 @@ export function Allow(validationOptions?: ValidationOptions) {
       propertyName: propertyName,
       validationOptions: validationOptions
     };
-    getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+    getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
   };
 }
 
@@ -97,7 +172,7 @@ export function Allow(validationOptions?: ValidationOptions) {
 /**
  * Objects / object arrays marked with this decorator will also be validated.
  */
-export function ValidateIf(condition: (object: any, value: any) => boolean, validationOptions?: ValidationOptions) {
+export function ValidateIf(condition: (object: any, value: any, context?: any) => boolean, validationOptions?: ValidationOptions) {
     return function (object: Object, propertyName: string) {
         const args: ValidationMetadataArgs = {
             type: ValidationTypes.CONDITIONAL_VALIDATION,
@@ -106,7 +181,7 @@ export function ValidateIf(condition: (object: any, value: any) => boolean, vali
             constraints: [condition],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -125,7 +200,7 @@ export function IsDefined(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -141,7 +216,7 @@ export function Equals(comparison: any, validationOptions?: ValidationOptions) {
             constraints: [comparison],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -157,7 +232,7 @@ export function NotEquals(comparison: any, validationOptions?: ValidationOptions
             constraints: [comparison],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -172,7 +247,7 @@ export function IsEmpty(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -187,7 +262,7 @@ export function IsNotEmpty(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -203,7 +278,7 @@ export function IsIn(values: any[], validationOptions?: ValidationOptions) {
             constraints: [values],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -219,7 +294,7 @@ export function IsNotIn(values: any[], validationOptions?: ValidationOptions) {
             constraints: [values],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -237,7 +312,158 @@ export function IsOptional(validationOptions?: ValidationOptions) {
             }],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
+    };
+}
+
+// -------------------------------------------------------------------------
+// Cross-field checkers
+// -------------------------------------------------------------------------
+
+/**
+ * Checks if the value is equal to the value of the given property, e.g. "password" or "credentials.password".
+ */
+export function EqualsProperty(property: string, validationOptions?: ValidationOptions) {
+    return function (object: Object, propertyName: string) {
+        const args: ValidationMetadataArgs = {
+            type: ValidationTypes.EQUALS_PROPERTY,
+            target: object.constructor,
+            propertyName: propertyName,
+            constraints: [property],
+            validationOptions: validationOptions
+        };
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
+    };
+}
+
+/**
+ * Checks if the value is not equal to the value of the given property.
+ */
+export function NotEqualsProperty(property: string, validationOptions?: ValidationOptions) {
+    return function (object: Object, propertyName: string) {
+        const args: ValidationMetadataArgs = {
+            type: ValidationTypes.NOT_EQUALS_PROPERTY,
+            target: object.constructor,
+            propertyName: propertyName,
+            constraints: [property],
+            validationOptions: validationOptions
+        };
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
+    };
+}
+
+/**
+ * Checks if the value is greater than the value of the given property. Numbers, strings and dates are supported.
+ */
+export function GreaterThanProperty(property: string, validationOptions?: ValidationOptions) {
+    return function (object: Object, propertyName: string) {
+        const args: ValidationMetadataArgs = {
+            type: ValidationTypes.GREATER_THAN_PROPERTY,
+            target: object.constructor,
+            propertyName: propertyName,
+            constraints: [property],
+            validationOptions: validationOptions
+        };
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
+    };
+}
+
+/**
+ * Checks if the value is greater than or equal to the value of the given property.
+ */
+export function GreaterThanOrEqualProperty(property: string, validationOptions?: ValidationOptions) {
+    return function (object: Object, propertyName: string) {
+        const args: ValidationMetadataArgs = {
+            type: ValidationTypes.GREATER_THAN_OR_EQUAL_PROPERTY,
+            target: object.constructor,
+            propertyName: propertyName,
+            constraints: [property],
+            validationOptions: validationOptions
+        };
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
+    };
+}
+
+/**
+ * Checks if the value is less than the value of the given property. Numbers, strings and dates are supported.
+ */
+export function LessThanProperty(property: string, validationOptions?: ValidationOptions) {
+    return function (object: Object, propertyName: string) {
+        const args: ValidationMetadataArgs = {
+            type: ValidationTypes.LESS_THAN_PROPERTY,
+            target: object.constructor,
+            propertyName: propertyName,
+            constraints: [property],
+            validationOptions: validationOptions
+        };
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
+    };
+}
+
+/**
+ * Checks if the value is less than or equal to the value of the given property.
+ */
+export function LessThanOrEqualProperty(property: string, validationOptions?: ValidationOptions) {
+    return function (object: Object, propertyName: string) {
+        const args: ValidationMetadataArgs = {
+            type: ValidationTypes.LESS_THAN_OR_EQUAL_PROPERTY,
+            target: object.constructor,
+            propertyName: propertyName,
+            constraints: [property],
+            validationOptions: validationOptions
+        };
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
+    };
+}
+
+/**
+ * Checks if the value is not empty when the given property is equal ("===") to the comparison.
+ * Otherwise missing value is allowed and other validators are ignored.
+ */
+export function RequiredIf(property: string, comparison: any, validationOptions?: ValidationOptions) {
+    return function (object: Object, propertyName: string) {
+        const args: ValidationMetadataArgs = {
+            type: ValidationTypes.REQUIRED_IF,
+            target: object.constructor,
+            propertyName: propertyName,
+            constraints: [property, comparison],
+            validationOptions: validationOptions
+        };
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
+    };
+}
+
+/**
+ * Checks if the value is not empty when any of the given properties is not empty.
+ * Otherwise missing value is allowed and other validators are ignored.
+ */
+export function RequiredWith(properties: string[], validationOptions?: ValidationOptions) {
+    return function (object: Object, propertyName: string) {
+        const args: ValidationMetadataArgs = {
+            type: ValidationTypes.REQUIRED_WITH,
+            target: object.constructor,
+            propertyName: propertyName,
+            constraints: [properties],
+            validationOptions: validationOptions
+        };
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
+    };
+}
+
+/**
+ * Checks if the value is not empty when any of the given properties is empty.
+ * Otherwise missing value is allowed and other validators are ignored.
+ */
+export function RequiredWithout(properties: string[], validationOptions?: ValidationOptions) {
+    return function (object: Object, propertyName: string) {
+        const args: ValidationMetadataArgs = {
+            type: ValidationTypes.REQUIRED_WITHOUT,
+            target: object.constructor,
+            propertyName: propertyName,
+            constraints: [properties],
+            validationOptions: validationOptions
+        };
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -256,7 +482,7 @@ export function IsBoolean(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -271,7 +497,7 @@ export function IsLatLong(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -286,7 +512,7 @@ export function IsLatitude(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -301,7 +527,7 @@ export function IsLongitude(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -316,7 +542,7 @@ export function IsDate(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -332,7 +558,7 @@ export function IsNumber(options: IsNumberOptions = {}, validationOptions?: Vali
             constraints: [options],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -347,7 +573,7 @@ export function IsInt(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -362,7 +588,7 @@ export function IsString(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -374,7 +600,7 @@ export function IsDateString(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -389,7 +615,7 @@ export function IsArray(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -405,7 +631,7 @@ export function IsEnum(entity: Object, validationOptions?: ValidationOptions) {
             constraints: [entity],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -426,7 +652,7 @@ export function IsDivisibleBy(num: number, validationOptions?: ValidationOptions
             constraints: [num],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -441,7 +667,7 @@ export function IsPositive(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -456,7 +682,7 @@ export function IsNegative(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 /**
@@ -471,7 +697,7 @@ export function Min(min: number, validationOptions?: ValidationOptions) {
             constraints: [min],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -487,7 +713,7 @@ export function Max(max: number, validationOptions?: ValidationOptions) {
             constraints: [max],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -507,7 +733,7 @@ export function MinDate(date: Date, validationOptions?: ValidationOptions) {
             constraints: [date],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -523,7 +749,7 @@ export function MaxDate(date: Date, validationOptions?: ValidationOptions) {
             constraints: [date],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -542,23 +768,24 @@ export function IsBooleanString(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
 /**
  * Checks if the string is a number.
+ * Options of the IsNumber decorator are still accepted for compatibility, but only the validator.js options are used.
  */
-export function IsNumberString(validationOptions?: ValidationOptions, NumberOptions?: IsNumberOptions) {
+export function IsNumberString(validationOptions?: ValidationOptions, options?: ValidatorJS.IsNumericOptions | IsNumberOptions) {
     return function (object: Object, propertyName: string) {
         const args: ValidationMetadataArgs = {
             type: ValidationTypes.IS_NUMBER_STRING,
             target: object.constructor,
             propertyName: propertyName,
-            constraints: [NumberOptions],
+            constraints: [options],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -578,7 +805,7 @@ export function Contains(seed: string, validationOptions?: ValidationOptions) {
             constraints: [seed],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -594,7 +821,7 @@ export function NotContains(seed: string, validationOptions?: ValidationOptions)
             constraints: [seed],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -610,7 +837,7 @@ export function IsAlpha(locale?: string, validationOptions?: ValidationOptions)
             constraints: [locale],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -626,7 +853,7 @@ export function IsAlphanumeric(locale?: string, validationOptions?: ValidationOp
             constraints: [locale],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -642,7 +869,7 @@ export function IsDecimal(options?: ValidatorJS.IsDecimalOptions, validationOpti
             constraints: [options],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -657,7 +884,7 @@ export function IsAscii(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -672,7 +899,7 @@ export function IsBase64(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -688,7 +915,7 @@ export function IsByteLength(min: number, max?: number, validationOptions?: Vali
             constraints: [min, max],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -703,7 +930,7 @@ export function IsCreditCard(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -719,7 +946,7 @@ export function IsCurrency(options?: ValidatorJS.IsCurrencyOptions, validationOp
             constraints: [options],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -735,7 +962,7 @@ export function IsEmail(options?: ValidatorJS.IsEmailOptions, validationOptions?
             constraints: [options],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -751,7 +978,7 @@ export function IsFQDN(options?: ValidatorJS.IsFQDNOptions, validationOptions?:
             constraints: [options],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -766,7 +993,7 @@ export function IsFullWidth(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -781,7 +1008,7 @@ export function IsHalfWidth(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -796,7 +1023,7 @@ export function IsVariableWidth(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -811,7 +1038,7 @@ export function IsHexColor(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -826,7 +1053,7 @@ export function IsHexadecimal(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -841,7 +1068,7 @@ export function IsMACAddress(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -857,7 +1084,7 @@ export function IsIP(version?: number, validationOptions?: ValidationOptions) {
             constraints: [version],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -872,7 +1099,7 @@ export function IsPort(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -888,7 +1115,7 @@ export function IsISBN(version?: number, validationOptions?: ValidationOptions)
             constraints: [version],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -903,7 +1130,7 @@ export function IsISIN(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -919,7 +1146,7 @@ export function IsISO8601(options?: ValidatorJS.IsISO8601Options, validationOpti
             constraints: [options],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -934,7 +1161,7 @@ export function IsJSON(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -949,7 +1176,7 @@ export function IsJWT(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -964,7 +1191,7 @@ export function IsObject(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -979,7 +1206,7 @@ export function IsNotEmptyObject(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -994,7 +1221,7 @@ export function IsLowercase(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -1011,7 +1238,7 @@ export function IsMobilePhone(locale: string, validationOptions?: ValidationOpti
             constraints: [locale],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -1030,7 +1257,7 @@ export function IsPhoneNumber(region: string, validationOptions?: ValidationOpti
             constraints: [region],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -1047,7 +1274,7 @@ export function IsISO31661Alpha2(validationOptions?: ValidationOptions) {
             constraints: [],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -1064,7 +1291,7 @@ export function IsISO31661Alpha3(validationOptions?: ValidationOptions) {
             constraints: [],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -1079,7 +1306,7 @@ export function IsMongoId(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -1094,7 +1321,7 @@ export function IsMultibyte(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -1109,7 +1336,7 @@ export function IsSurrogatePair(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -1125,7 +1352,7 @@ export function IsUrl(options?: ValidatorJS.IsURLOptions, validationOptions?: Va
             constraints: [options],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -1141,7 +1368,7 @@ export function IsUUID(version?: "3"|"4"|"5"|"all", validationOptions?: Validati
             constraints: [version],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -1156,7 +1383,7 @@ export function IsUppercase(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -1172,7 +1399,7 @@ export function Length(min: number, max?: number, validationOptions?: Validation
             constraints: [min, max],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -1188,7 +1415,7 @@ export function MinLength(min: number, validationOptions?: ValidationOptions) {
             constraints: [min],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -1204,7 +1431,7 @@ export function MaxLength(max: number, validationOptions?: ValidationOptions) {
             constraints: [max],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -1229,7 +1456,7 @@ export function Matches(pattern: RegExp, modifiersOrAnnotationOptions?: string|V
             constraints: [pattern, modifiers],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -1244,7 +1471,7 @@ export function IsMilitaryTime(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -1261,7 +1488,7 @@ export function IsHash(algorithm: string, validationOptions?: ValidationOptions)
             constraints: [algorithm],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -1278,7 +1505,7 @@ export function IsISSN(options?: ValidatorJS.IsISSNOptions, validationOptions?:
             constraints: [options],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -1298,7 +1525,7 @@ export function ArrayContains(values: any[], validationOptions?: ValidationOptio
             constraints: [values],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -1314,7 +1541,7 @@ export function ArrayNotContains(values: any[], validationOptions?: ValidationOp
             constraints: [values],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -1329,7 +1556,7 @@ export function ArrayNotEmpty(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -1345,7 +1572,7 @@ export function ArrayMinSize(min: number, validationOptions?: ValidationOptions)
             constraints: [min],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -1361,7 +1588,7 @@ export function ArrayMaxSize(max: number, validationOptions?: ValidationOptions)
             constraints: [max],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -1376,7 +1603,7 @@ export function ArrayUnique(validationOptions?: ValidationOptions) {
             propertyName: propertyName,
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
     };
 }
 
@@ -1392,6 +1619,303 @@ export function IsInstance(targetType: new (...args: any[]) => any, validationOp
             constraints: [targetType],
             validationOptions: validationOptions
         };
-        getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(args));
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
+    };
+}
+
+// -------------------------------------------------------------------------
+// Converters
+// -------------------------------------------------------------------------
+
+/**
+ * Converts strings like "42" into integer numbers before validation.
+ * Values which can't be converted fail validation.
+ */
+export function ToInt(validationOptions?: ValidationOptions) {
+    return function (object: Object, propertyName: string) {
+        const args: ValidationMetadataArgs = {
+            type: ValidationTypes.TO_INT,
+            target: object.constructor,
+            propertyName: propertyName,
+            validationOptions: validationOptions
+        };
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
+    };
+}
+
+/**
+ * Converts numeric strings like "4.2" into numbers before validation.
+ * Values which can't be converted fail validation.
+ */
+export function ToNumber(validationOptions?: ValidationOptions) {
+    return function (object: Object, propertyName: string) {
+        const args: ValidationMetadataArgs = {
+            type: ValidationTypes.TO_NUMBER,
+            target: object.constructor,
+            propertyName: propertyName,
+            validationOptions: validationOptions
+        };
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
+    };
+}
+
+/**
+ * Converts "true", "1", 1 into true and "false", "0", 0 into false before validation.
+ * Values which can't be converted fail validation.
+ */
+export function ToBoolean(validationOptions?: ValidationOptions) {
+    return function (object: Object, propertyName: string) {
+        const args: ValidationMetadataArgs = {
+            type: ValidationTypes.TO_BOOLEAN,
+            target: object.constructor,
+            propertyName: propertyName,
+            validationOptions: validationOptions
+        };
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
+    };
+}
+
+/**
+ * Converts ISO strings and timestamps into dates before validation.
+ * Values which can't be converted fail validation.
+ */
+export function ToDate(validationOptions?: ValidationOptions) {
+    return function (object: Object, propertyName: string) {
+        const args: ValidationMetadataArgs = {
+            type: ValidationTypes.TO_DATE,
+            target: object.constructor,
+            propertyName: propertyName,
+            validationOptions: validationOptions
+        };
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
+    };
+}
+
+/**
+ * Removes leading and trailing whitespaces of the string before validation.
+ */
+export function Trim(validationOptions?: ValidationOptions) {
+    return function (object: Object, propertyName: string) {
+        const args: ValidationMetadataArgs = {
+            type: ValidationTypes.TRIM,
+            target: object.constructor,
+            propertyName: propertyName,
+            validationOptions: validationOptions
+        };
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
+    };
+}
+
+/**
+ * Converts the string to lower case before validation.
+ */
+export function ToLowerCase(validationOptions?: ValidationOptions) {
+    return function (object: Object, propertyName: string) {
+        const args: ValidationMetadataArgs = {
+            type: ValidationTypes.TO_LOWER_CASE,
+            target: object.constructor,
+            propertyName: propertyName,
+            validationOptions: validationOptions
+        };
+        getMetadataStorage(args.validationOptions).addValidationMetadata(new ValidationMetadata(args));
+    };
+}
+
+// -------------------------------------------------------------------------
+// Sanitizers
+// -------------------------------------------------------------------------
+
+/**
+ * Registers custom sanitizer class.
+ */
+export function SanitizerConstraint(options?: { name?: string, async?: boolean, metadataStorage?: MetadataStorage }) {
+    return function(target: Function) {
+        const isAsync = options && options.async ? true : false;
+        const name = options && options.name ? options.name : (target as any).name;
+        getMetadataStorage(options).addConstraintMetadata(new ConstraintMetadata(target, name, isAsync));
+    };
+}
+
+/**
+ * Performs sanitization based on the given custom sanitizer class.
+ * Sanitizer class must be decorated with SanitizerConstraint decorator.
+ */
+export function Sanitize(constraintClass: Function, sanitizationOptions?: SanitizationOptions): Function;
+export function Sanitize(constraintClass: Function, constraints?: any[], sanitizationOptions?: SanitizationOptions): Function;
+export function Sanitize(constraintClass: Function, constraintsOrSanitizationOptions?: any[]|SanitizationOptions, maybeSanitizationOptions?: SanitizationOptions): Function {
+    return function(object: Object, propertyName: string) {
+        const args: SanitizationMetadataArgs = {
+            type: SanitizationTypes.CUSTOM_SANITIZATION,
+            target: object.constructor,
+            propertyName: propertyName,
+            constraintCls: constraintClass,
+            constraints: constraintsOrSanitizationOptions instanceof Array ? constraintsOrSanitizationOptions as any[] : undefined,
+            sanitizationOptions: !(constraintsOrSanitizationOptions instanceof Array)
+                ? constraintsOrSanitizationOptions as SanitizationOptions
+                : maybeSanitizationOptions
+        };
+        getMetadataStorage(args.sanitizationOptions).addSanitizationMetadata(new SanitizationMetadata(args));
+    };
+}
+
+/**
+ * Objects / object arrays marked with this decorator will also be sanitized.
+ */
+export function SanitizeNested(sanitizationOptions?: SanitizationOptions) {
+    return function (object: Object, propertyName: string) {
+        const args: SanitizationMetadataArgs = {
+            type: SanitizationTypes.NESTED_SANITIZATION,
+            target: object.constructor,
+            propertyName: propertyName,
+            sanitizationOptions: sanitizationOptions
+        };
+        getMetadataStorage(args.sanitizationOptions).addSanitizationMetadata(new SanitizationMetadata(args));
+    };
+}
+
+/**
+ * Removes characters that appear in the blacklist.
+ * The characters are used in a RegExp and so you will need to escape some chars, e.g. "\\[\\]".
+ */
+export function SanitizeBlacklist(chars: string, sanitizationOptions?: SanitizationOptions) {
+    return function (object: Object, propertyName: string) {
+        const args: SanitizationMetadataArgs = {
+            type: SanitizationTypes.BLACKLIST,
+            target: object.constructor,
+            propertyName: propertyName,
+            constraints: [chars],
+            sanitizationOptions: sanitizationOptions
+        };
+        getMetadataStorage(args.sanitizationOptions).addSanitizationMetadata(new SanitizationMetadata(args));
+    };
+}
+
+/**
+ * Replaces <, >, &, ', " and / with HTML entities.
+ */
+export function SanitizeEscape(sanitizationOptions?: SanitizationOptions) {
+    return function (object: Object, propertyName: string) {
+        const args: SanitizationMetadataArgs = {
+            type: SanitizationTypes.ESCAPE,
+            target: object.constructor,
+            propertyName: propertyName,
+            sanitizationOptions: sanitizationOptions
+        };
+        getMetadataStorage(args.sanitizationOptions).addSanitizationMetadata(new SanitizationMetadata(args));
+    };
+}
+
+/**
+ * Trims characters (whitespace by default) from the left-side of the string.
+ */
+export function SanitizeLTrim(chars?: string, sanitizationOptions?: SanitizationOptions) {
+    return function (object: Object, propertyName: string) {
+        const args: SanitizationMetadataArgs = {
+            type: SanitizationTypes.LTRIM,
+            target: object.constructor,
+            propertyName: propertyName,
+            constraints: [chars],
+            sanitizationOptions: sanitizationOptions
+        };
+        getMetadataStorage(args.sanitizationOptions).addSanitizationMetadata(new SanitizationMetadata(args));
+    };
+}
+
+/**
+ * Canonicalizes an email address. Value which is not an email address is replaced with false.
+ */
+export function SanitizeNormalizeEmail(options?: ValidatorJS.NormalizeEmailOptions, sanitizationOptions?: SanitizationOptions) {
+    return function (object: Object, propertyName: string) {
+        const args: SanitizationMetadataArgs = {
+            type: SanitizationTypes.NORMALIZE_EMAIL,
+            target: object.constructor,
+            propertyName: propertyName,
+            constraints: [options],
+            sanitizationOptions: sanitizationOptions
+        };
+        getMetadataStorage(args.sanitizationOptions).addSanitizationMetadata(new SanitizationMetadata(args));
+    };
+}
+
+/**
+ * Trims characters (whitespace by default) from the right-side of the string.
+ */
+export function SanitizeRTrim(chars?: string, sanitizationOptions?: SanitizationOptions) {
+    return function (object: Object, propertyName: string) {
+        const args: SanitizationMetadataArgs = {
+            type: SanitizationTypes.RTRIM,
+            target: object.constructor,
+            propertyName: propertyName,
+            constraints: [chars],
+            sanitizationOptions: sanitizationOptions
+        };
+        getMetadataStorage(args.sanitizationOptions).addSanitizationMetadata(new SanitizationMetadata(args));
+    };
+}
+
+/**
+ * Removes characters with a numerical value < 32 and 127, mostly control characters.
+ * If keepNewLines is true, newline characters are preserved (\n and \r, hex 0xA and 0xD).
+ */
+export function SanitizeStripLow(keepNewLines?: boolean, sanitizationOptions?: SanitizationOptions) {
+    return function (object: Object, propertyName: string) {
+        const args: SanitizationMetadataArgs = {
+            type: SanitizationTypes.STRIP_LOW,
+            target: object.constructor,
+            propertyName: propertyName,
+            constraints: [keepNewLines],
+            sanitizationOptions: sanitizationOptions
+        };
+        getMetadataStorage(args.sanitizationOptions).addSanitizationMetadata(new SanitizationMetadata(args));
+    };
+}
+
+/**
+ * Converts the string to an integer, or NaN if it can't be converted.
+ * Unlike @ToInt converter it never fails validation.
+ */
+export function SanitizeToInt(radix?: number, sanitizationOptions?: SanitizationOptions) {
+    return function (object: Object, propertyName: string) {
+        const args: SanitizationMetadataArgs = {
+            type: SanitizationTypes.TO_INT,
+            target: object.constructor,
+            propertyName: propertyName,
+            constraints: [radix],
+            sanitizationOptions: sanitizationOptions
+        };
+        getMetadataStorage(args.sanitizationOptions).addSanitizationMetadata(new SanitizationMetadata(args));
+    };
+}
+
+/**
+ * Trims characters (whitespace by default) from both sides of the string.
+ */
+export function SanitizeTrim(chars?: string, sanitizationOptions?: SanitizationOptions) {
+    return function (object: Object, propertyName: string) {
+        const args: SanitizationMetadataArgs = {
+            type: SanitizationTypes.TRIM,
+            target: object.constructor,
+            propertyName: propertyName,
+            constraints: [chars],
+            sanitizationOptions: sanitizationOptions
+        };
+        getMetadataStorage(args.sanitizationOptions).addSanitizationMetadata(new SanitizationMetadata(args));
+    };
+}
+
+/**
+ * Removes characters that do not appear in the whitelist.
+ * The characters are used in a RegExp and so you will need to escape some chars, e.g. "\\[\\]".
+ */
+export function SanitizeWhitelist(chars: string, sanitizationOptions?: SanitizationOptions) {
+    return function (object: Object, propertyName: string) {
+        const args: SanitizationMetadataArgs = {
+            type: SanitizationTypes.WHITELIST,
+            target: object.constructor,
+            propertyName: propertyName,
+            constraints: [chars],
+            sanitizationOptions: sanitizationOptions
+        };
+        getMetadataStorage(args.sanitizationOptions).addSanitizationMetadata(new SanitizationMetadata(args));
     };
 }
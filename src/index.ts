@@ -4,6 +4,18 @@ import {ValidationSchema} from "./validation-schema/ValidationSchema";
 import {MetadataStorage} from "./metadata/MetadataStorage";
 import {Validator} from "./validation/Validator";
 import {getFromContainer} from "./container";
+import {JsonSchema} from "./json-schema/JsonSchema";
+import {JsonSchemaConverter} from "./json-schema/JsonSchemaConverter";
+import {JsonSchemaConverterOptions} from "./json-schema/JsonSchemaConverterOptions";
+import {OpenApiConverter} from "./json-schema/OpenApiConverter";
+import {JsonSchemaToValidationSchemaTransformer} from "./json-schema/JsonSchemaToValidationSchemaTransformer";
+import {MessageCatalog} from "./message-catalog/MessageCatalog";
+import {MessageCatalogStorage} from "./message-catalog/MessageCatalogStorage";
+import {ConstraintDefinition} from "./validation/ConstraintDefinition";
+import {ConstraintRegistry} from "./validation/ConstraintRegistry";
+import {Sanitizer} from "./sanitization/Sanitizer";
+import {SanitizerOptions} from "./sanitization/SanitizerOptions";
+import {CompiledValidator} from "./validation/ValidatorCompiler";
 
 // -------------------------------------------------------------------------
 // Export everything api users needs
@@ -12,16 +24,40 @@ import {getFromContainer} from "./container";
 export * from "./container";
 export * from "./decorator/decorators";
 export * from "./decorator/ValidationOptions";
+export * from "./decorator/SanitizationOptions";
 export * from "./validation/ValidatorConstraintInterface";
+export * from "./validation/ClassValidatorConstraintInterface";
 export * from "./validation/ValidationError";
+export * from "./validation/ValidationIssue";
 export * from "./validation/ValidationTypeOptions";
 export * from "./validation/ValidatorOptions";
 export * from "./validation/ValidationArguments";
+export * from "./validation/AbortSignalLike";
 export * from "./validation/ValidationTypes";
+export * from "./validation/ConstraintDefinition";
+export * from "./validation/ConstraintRegistry";
 export * from "./validation/Validator";
+export * from "./validation/ValueConverter";
+export * from "./validation/ValidationPlan";
+export * from "./validation/ValidatorCompiler";
+export * from "./validation/CompiledExecutionContext";
 export * from "./validation-schema/ValidationSchema";
 export * from "./register-decorator";
 export * from "./metadata/MetadataStorage";
+export * from "./metadata/MetadataStorageSnapshot";
+export * from "./json-schema/JsonSchema";
+export * from "./json-schema/JsonSchemaConverter";
+export * from "./json-schema/JsonSchemaConverterOptions";
+export * from "./json-schema/OpenApiConverter";
+export * from "./json-schema/JsonSchemaToValidationSchemaTransformer";
+export * from "./message-catalog/MessageCatalog";
+export * from "./message-catalog/MessageCatalogStorage";
+export * from "./message-catalog/MessageFormatter";
+export * from "./sanitization/SanitizationArguments";
+export * from "./sanitization/SanitizationTypes";
+export * from "./sanitization/Sanitizer";
+export * from "./sanitization/SanitizerConstraintInterface";
+export * from "./sanitization/SanitizerOptions";
 
 // -------------------------------------------------------------------------
 // Shortcut methods for api users
@@ -38,18 +74,57 @@ export function validate(object: Object, validatorOptions?: ValidatorOptions): P
 export function validate(schemaName: string, object: Object, validatorOptions?: ValidatorOptions): Promise<ValidationError[]>;
 
 /**
- * Validates given object by object's decorators or given validation schema.
+ * Validates given object (e.g. plain object parsed from JSON) by decorators of the given class.
  */
-export function validate(schemaNameOrObject: Object|string,
+export function validate(targetClass: Function, object: Object, validatorOptions?: ValidatorOptions): Promise<ValidationError[]>;
+
+/**
+ * Validates given object by object's decorators, given validation schema or decorators of the given class.
+ */
+export function validate(schemaNameOrObject: Object|string|Function,
                          objectOrValidationOptions?: Object|ValidatorOptions,
                          maybeValidatorOptions?: ValidatorOptions): Promise<ValidationError[]> {
     if (typeof schemaNameOrObject === "string") {
         return getFromContainer(Validator).validate(schemaNameOrObject as string, objectOrValidationOptions as Object, maybeValidatorOptions);
+    } else if (schemaNameOrObject instanceof Function) {
+        return getFromContainer(Validator).validate(schemaNameOrObject as Function, objectOrValidationOptions as Object, maybeValidatorOptions);
     } else {
         return getFromContainer(Validator).validate(schemaNameOrObject as Object, objectOrValidationOptions as ValidatorOptions);
     }
 }
 
+/**
+ * Validates given plain object by decorators of the given class.
+ * Nested plain objects are validated by decorators of their declared types.
+ */
+export function validatePlain(targetClass: Function, object: Object, validatorOptions?: ValidatorOptions): Promise<ValidationError[]> {
+    return getFromContainer(Validator).validatePlain(targetClass, object, validatorOptions);
+}
+
+/**
+ * Validates given property of the object.
+ */
+export function validateProperty(object: Object, property: string, validatorOptions?: ValidatorOptions): Promise<ValidationError[]>;
+
+/**
+ * Validates given property of the object by a given validation schema.
+ */
+export function validateProperty(schemaName: string, object: Object, property: string, validatorOptions?: ValidatorOptions): Promise<ValidationError[]>;
+
+/**
+ * Validates given property of the object by object's decorators or given validation schema.
+ */
+export function validateProperty(schemaNameOrObject: Object|string,
+                                 objectOrProperty: Object|string,
+                                 propertyOrValidatorOptions?: string|ValidatorOptions,
+                                 maybeValidatorOptions?: ValidatorOptions): Promise<ValidationError[]> {
+    if (typeof schemaNameOrObject === "string") {
+        return getFromContainer(Validator).validateProperty(schemaNameOrObject as string, objectOrProperty as Object, propertyOrValidatorOptions as string, maybeValidatorOptions);
+    } else {
+        return getFromContainer(Validator).validateProperty(schemaNameOrObject as Object, objectOrProperty as string, propertyOrValidatorOptions as ValidatorOptions);
+    }
+}
+
 /**
  * Validates given object and reject on error.
  */
@@ -61,13 +136,20 @@ export function validateOrReject(object: Object, validatorOptions?: ValidatorOpt
 export function validateOrReject(schemaName: string, object: Object, validatorOptions?: ValidatorOptions): Promise<void>;
 
 /**
- * Validates given object by object's decorators or given validation schema and reject on error.
+ * Validates given object by decorators of the given class and reject on error.
+ */
+export function validateOrReject(targetClass: Function, object: Object, validatorOptions?: ValidatorOptions): Promise<void>;
+
+/**
+ * Validates given object by object's decorators, given validation schema or decorators of the given class and reject on error.
  */
-export function validateOrReject(schemaNameOrObject: Object|string,
+export function validateOrReject(schemaNameOrObject: Object|string|Function,
                          objectOrValidationOptions?: Object|ValidatorOptions,
                          maybeValidatorOptions?: ValidatorOptions): Promise<void> {
     if (typeof schemaNameOrObject === "string") {
         return getFromContainer(Validator).validateOrReject(schemaNameOrObject as string, objectOrValidationOptions as Object, maybeValidatorOptions);
+    } else if (schemaNameOrObject instanceof Function) {
+        return getFromContainer(Validator).validateOrReject(schemaNameOrObject as Function, objectOrValidationOptions as Object, maybeValidatorOptions);
     } else {
         return getFromContainer(Validator).validateOrReject(schemaNameOrObject as Object, objectOrValidationOptions as ValidatorOptions);
     }
@@ -88,23 +170,107 @@ export function validateSync(object: Object, validatorOptions?: ValidatorOptions
 export function validateSync(schemaName: string, object: Object, validatorOptions?: ValidatorOptions): ValidationError[];
 
 /**
- * Validates given object by object's decorators or given validation schema.
+ * Validates given object by decorators of the given class.
+ * Note that this method completely ignores async validations.
+ * If you want to properly perform validation you need to call validate method instead.
+ */
+export function validateSync(targetClass: Function, object: Object, validatorOptions?: ValidatorOptions): ValidationError[];
+
+/**
+ * Validates given object by object's decorators, given validation schema or decorators of the given class.
  * Note that this method completely ignores async validations.
  * If you want to properly perform validation you need to call validate method instead.
  */
-export function validateSync(schemaNameOrObject: Object|string,
+export function validateSync(schemaNameOrObject: Object|string|Function,
                              objectOrValidationOptions?: Object|ValidatorOptions,
                              maybeValidatorOptions?: ValidatorOptions): ValidationError[] {
     if (typeof schemaNameOrObject === "string") {
         return getFromContainer(Validator).validateSync(schemaNameOrObject as string, objectOrValidationOptions as Object, maybeValidatorOptions);
+    } else if (schemaNameOrObject instanceof Function) {
+        return getFromContainer(Validator).validateSync(schemaNameOrObject as Function, objectOrValidationOptions as Object, maybeValidatorOptions);
     } else {
         return getFromContainer(Validator).validateSync(schemaNameOrObject as Object, objectOrValidationOptions as ValidatorOptions);
     }
 }
 
+/**
+ * Compiles validator of the given class, which validates objects the same way as validateSync does with the given options.
+ * Note that compiled validator ignores async validations as well.
+ */
+export function compile(targetClass: Function, validatorOptions?: ValidatorOptions): CompiledValidator {
+    return getFromContainer(Validator).compile(targetClass, validatorOptions);
+}
+
+/**
+ * Sanitizes properties of the given object and returns the object.
+ * Note that this method completely ignores async sanitizations.
+ * If you want to perform async sanitizations you need to call sanitizeAsync method instead.
+ */
+export function sanitize<T>(object: T, sanitizerOptions?: SanitizerOptions): T {
+    return getFromContainer(Sanitizer).sanitize(object, sanitizerOptions);
+}
+
+/**
+ * Sanitizes properties of the given object, including async sanitizations, and resolves to the object.
+ */
+export function sanitizeAsync<T>(object: T, sanitizerOptions?: SanitizerOptions): Promise<T> {
+    return getFromContainer(Sanitizer).sanitizeAsync(object, sanitizerOptions);
+}
+
 /**
  * Registers a new validation schema.
  */
 export function registerSchema(schema: ValidationSchema): void {
     getFromContainer(MetadataStorage).addValidationSchema(schema);
 }
+
+/**
+ * Registers the given constraint, constraint registered with the same name (including the built-in one) is replaced.
+ */
+export function registerConstraint(definition: ConstraintDefinition): void {
+    getFromContainer(ConstraintRegistry).register(definition);
+}
+
+/**
+ * Registers default messages of the given locale.
+ */
+export function registerMessageCatalog(locale: string, catalog: MessageCatalog): void {
+    getFromContainer(MessageCatalogStorage).addCatalog(locale, catalog);
+}
+
+/**
+ * Registers validation schemas built from the given JSON Schema document under the given name.
+ * Definitions of the document ("$defs") are registered as separate schemas named by their keys.
+ */
+export function registerJsonSchema(jsonSchema: JsonSchema, name: string): ValidationSchema[] {
+    const schemas = new JsonSchemaToValidationSchemaTransformer().transform(jsonSchema, name);
+    schemas.forEach(schema => registerSchema(schema));
+    return schemas;
+}
+
+/**
+ * Converts validation decorators of the given class into JSON Schema (draft 2019-09) document.
+ */
+export function classToJsonSchema(target: Function, options?: JsonSchemaConverterOptions): JsonSchema {
+    return new JsonSchemaConverter(options).convert(target);
+}
+
+/**
+ * Converts validation decorators of the given classes into OpenAPI 3 "components.schemas" object.
+ */
+export function classesToOpenApiSchemas(targets: Function[], options?: JsonSchemaConverterOptions): { [name: string]: JsonSchema } {
+    return new OpenApiConverter(options).convert(targets);
+}
+
+/**
+ * Flattens the given error trees into the list of errors with failed constraints.
+ * Each error keeps its "path" and "pointer", so it can be reported without walking its parents.
+ */
+export function flattenErrors(errors: ValidationError[]): ValidationError[] {
+    return errors.reduce((flattened, error) => {
+        if (error.constraints && Object.keys(error.constraints).length > 0)
+            flattened.push(error);
+
+        return flattened.concat(flattenErrors(error.children || []));
+    }, [] as ValidationError[]);
+}
@@ -0,0 +1,54 @@
+/**
+ * JSON Schema (draft 2019-09) document or sub-schema.
+ * Only keywords emitted or understood by this library are listed, any other keyword is allowed as well.
+ */
+export interface JsonSchema {
+
+    $schema?: string;
+    $ref?: string;
+    $defs?: { [name: string]: JsonSchema };
+
+    title?: string;
+    description?: string;
+
+    type?: string|string[];
+    enum?: any[];
+    const?: any;
+    format?: string;
+
+    /* string keywords */
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    contentEncoding?: string;
+    contentMediaType?: string;
+
+    /* number keywords */
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number|boolean;
+    exclusiveMaximum?: number|boolean;
+    multipleOf?: number;
+
+    /* array keywords */
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+    uniqueItems?: boolean;
+    contains?: JsonSchema;
+
+    /* object keywords */
+    properties?: { [propertyName: string]: JsonSchema };
+    required?: string[];
+    additionalProperties?: boolean|JsonSchema;
+    propertyNames?: JsonSchema;
+    minProperties?: number;
+
+    /* combinators */
+    allOf?: JsonSchema[];
+    anyOf?: JsonSchema[];
+    oneOf?: JsonSchema[];
+    not?: JsonSchema;
+
+    [keyword: string]: any;
+}
@@ -0,0 +1,393 @@
+import {ValidationMetadata} from "../metadata/ValidationMetadata";
+import {MetadataStorage} from "../metadata/MetadataStorage";
+import {ValidationTypes} from "../validation/ValidationTypes";
+import {NestedValidationTypeOptions} from "../validation/ValidationTypeOptions";
+import {getFromContainer} from "../container";
+import {JsonSchema} from "./JsonSchema";
+import {JsonSchemaConverterOptions} from "./JsonSchemaConverterOptions";
+
+/**
+ * Converts validation metadatas of the classes into JSON Schema (draft 2019-09) documents.
+ */
+export class JsonSchemaConverter {
+
+    // -------------------------------------------------------------------------
+    // Constants
+    // -------------------------------------------------------------------------
+
+    static SCHEMA_DIALECT = "https://json-schema.org/draft/2019-09/schema";
+
+    // -------------------------------------------------------------------------
+    // Private Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Schemas of the converted classes keyed by definition name.
+     */
+    private definitions: { [name: string]: JsonSchema } = {};
+
+    /**
+     * References to the already converted (or being converted) classes.
+     */
+    private references = new Map<Function, string>();
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    /**
+     * Creates converter of the validation metadatas registered in the given metadata storage,
+     * by default in the storage from the container.
+     */
+    constructor(private options: JsonSchemaConverterOptions = {},
+                readonly metadataStorage: MetadataStorage = getFromContainer(MetadataStorage)) {
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Converts the given class into a JSON Schema document.
+     * Schemas of the nested classes are put into "$defs" and referenced from the properties using them.
+     */
+    convert(target: Function): JsonSchema {
+        this.definitions = {};
+        this.references = new Map<Function, string>();
+        this.references.set(target, "#");
+
+        const schema: JsonSchema = { $schema: JsonSchemaConverter.SCHEMA_DIALECT };
+        Object.assign(schema, this.convertClass(target));
+        if (Object.keys(this.definitions).length > 0)
+            schema.$defs = this.definitions;
+
+        return schema;
+    }
+
+    /**
+     * Converts the given classes and all classes nested in them into schemas keyed by definition name.
+     * Nested classes are referenced using refPointerPrefix option.
+     */
+    convertDefinitions(targets: Function[]): { [name: string]: JsonSchema } {
+        this.definitions = {};
+        this.references = new Map<Function, string>();
+        targets.forEach(target => this.getReference(target));
+        return this.definitions;
+    }
+
+    // -------------------------------------------------------------------------
+    // Private Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Gets reference to the given class schema, converts the class if it wasn't converted yet.
+     */
+    private getReference(target: Function): string {
+        if (this.references.has(target))
+            return this.references.get(target);
+
+        let name = target.name || "Anonymous";
+        for (let index = 2; this.definitions[name]; index++)
+            name = (target.name || "Anonymous") + index;
+
+        const reference = (this.options.refPointerPrefix || "#/$defs/") + name;
+        this.references.set(target, reference);
+        this.definitions[name] = {}; // reserve the name, class can reference itself
+        this.definitions[name] = this.convertClass(target);
+        return reference;
+    }
+
+    private convertClass(target: Function): JsonSchema {
+        const metadatas = this.metadataStorage.getTargetValidationMetadatas(target, undefined, this.options.groups)
+            .filter(metadata => metadata.type !== ValidationTypes.CLASS_VALIDATION); // class-level constraints can't be expressed
+        const groupedMetadatas = this.metadataStorage.groupByPropertyName(metadatas);
+
+        const schema: JsonSchema = { type: "object", properties: {} };
+        const required: string[] = [];
+        Object.keys(groupedMetadatas).forEach(propertyName => {
+            schema.properties[propertyName] = this.convertProperty(groupedMetadatas[propertyName]);
+            if (this.isRequired(groupedMetadatas[propertyName]))
+                required.push(propertyName);
+        });
+
+        if (required.length > 0)
+            schema.required = required;
+        if (this.options.additionalProperties !== undefined)
+            schema.additionalProperties = this.options.additionalProperties;
+
+        return schema;
+    }
+
+    private convertProperty(metadatas: ValidationMetadata[]): JsonSchema {
+        const schema: JsonSchema = {};
+        const itemsSchema: JsonSchema = {};
+
+        // nested arrays and dictionaries are validated item by item, so nested schema is applied to the items
+        const isDictionary = metadatas.some(metadata => metadata.dictionary);
+        const designType = this.getDesignType(metadatas);
+        const isDesignArray = !isDictionary && (designType === Array || designType === Set);
+        const isArray = isDesignArray || (!isDictionary && metadatas.some(metadata => metadata.each ||
+            metadata.type === ValidationTypes.IS_ARRAY ||
+            metadata.type === ValidationTypes.ARRAY_NOT_EMPTY ||
+            metadata.type === ValidationTypes.ARRAY_MIN_SIZE ||
+            metadata.type === ValidationTypes.ARRAY_MAX_SIZE));
+
+        metadatas.forEach(metadata => {
+            const keywords = this.convertMetadata(metadata, metadatas);
+            const isItemKeywords = metadata.each || ((isArray || isDictionary) && metadata.type === ValidationTypes.NESTED_VALIDATION);
+            this.mergeKeywords(isItemKeywords ? itemsSchema : schema, keywords);
+        });
+
+        if (Object.keys(itemsSchema).length > 0 && isDictionary) {
+            this.mergeKeywords(schema, { type: "object", additionalProperties: itemsSchema });
+        } else if (Object.keys(itemsSchema).length > 0) {
+            this.mergeKeywords(schema, { type: "array", items: itemsSchema });
+        } else if (isDesignArray) {
+            this.mergeKeywords(schema, { type: "array" });
+        }
+
+        return schema;
+    }
+
+    private convertMetadata(metadata: ValidationMetadata, propertyMetadatas: ValidationMetadata[]): JsonSchema {
+        const type = this.getConstraintType(metadata);
+        const additionalConverters = this.options.additionalConverters || {};
+        if (additionalConverters[type])
+            return additionalConverters[type](metadata, this.options);
+
+        const constraints = metadata.constraints || [];
+        switch (metadata.type) {
+            /* system */
+            case ValidationTypes.NESTED_VALIDATION:
+                const typeOptions: NestedValidationTypeOptions = metadata.validationTypeOptions || {};
+                if (typeOptions.discriminator)
+                    return { oneOf: typeOptions.discriminator.subTypes.map(subType => ({ $ref: this.getReference(subType.value) })) };
+
+                // type of the value isn't restricted if class of the nested objects is unknown, e.g. for the arrays
+                const nestedType = typeOptions.type ? typeOptions.type() : this.getNestedType(propertyMetadatas);
+                return nestedType ? { $ref: this.getReference(nestedType) } : {};
+            case ValidationTypes.KEYS_VALIDATION:
+                return { type: "object", propertyNames: this.convertProperty(constraints) };
+
+            /* common checkers */
+            case ValidationTypes.EQUALS:
+                return { const: constraints[0] };
+            case ValidationTypes.NOT_EQUALS:
+                return { not: { const: constraints[0] } };
+            case ValidationTypes.IS_EMPTY:
+                return { enum: ["", null] };
+            case ValidationTypes.IS_NOT_EMPTY:
+                return { not: { enum: ["", null] } };
+            case ValidationTypes.IS_IN:
+                return { enum: constraints[0] };
+            case ValidationTypes.IS_NOT_IN:
+                return { not: { enum: constraints[0] } };
+
+            /* type checkers */
+            case ValidationTypes.IS_BOOLEAN:
+                return { type: "boolean" };
+            case ValidationTypes.IS_DATE:
+            case ValidationTypes.IS_DATE_STRING:
+            case ValidationTypes.IS_ISO8601:
+            case ValidationTypes.MIN_DATE:
+            case ValidationTypes.MAX_DATE:
+                return { type: "string", format: "date-time" };
+            case ValidationTypes.IS_NUMBER:
+                return { type: "number" };
+            case ValidationTypes.IS_INT:
+                return { type: "integer" };
+            case ValidationTypes.IS_STRING:
+                return { type: "string" };
+            case ValidationTypes.IS_ARRAY:
+                return { type: "array" };
+            case ValidationTypes.IS_ENUM:
+                const entity = constraints[0] || {};
+                return { enum: Object.keys(entity).map(key => entity[key]) };
+
+            /* number checkers */
+            case ValidationTypes.IS_DIVISIBLE_BY:
+                return { multipleOf: constraints[0] };
+            case ValidationTypes.IS_POSITIVE:
+                return { exclusiveMinimum: 0 };
+            case ValidationTypes.IS_NEGATIVE:
+                return { exclusiveMaximum: 0 };
+            case ValidationTypes.MIN:
+                return { minimum: constraints[0] };
+            case ValidationTypes.MAX:
+                return { maximum: constraints[0] };
+
+            /* string checkers */
+            case ValidationTypes.IS_EMAIL:
+                return { type: "string", format: "email" };
+            case ValidationTypes.IS_URL:
+                return { type: "string", format: "uri" };
+            case ValidationTypes.IS_UUID:
+                return { type: "string", format: "uuid" };
+            case ValidationTypes.IS_FQDN:
+                return { type: "string", format: "hostname" };
+            case ValidationTypes.IS_IP:
+                if (String(constraints[0]) === "4")
+                    return { type: "string", format: "ipv4" };
+                if (String(constraints[0]) === "6")
+                    return { type: "string", format: "ipv6" };
+                return { type: "string" };
+            case ValidationTypes.IS_JSON:
+                return { type: "string", contentMediaType: "application/json" };
+            case ValidationTypes.IS_BASE64:
+                return { type: "string", contentEncoding: "base64" };
+            case ValidationTypes.IS_MONGO_ID:
+                return { type: "string", pattern: "^[0-9a-fA-F]{24}$" };
+            case ValidationTypes.IS_MILITARY_TIME:
+                return { type: "string", pattern: "^([01]\\d|2[0-3]):?([0-5]\\d)$" };
+            case ValidationTypes.LENGTH:
+                return this.omitUndefined({ type: "string", minLength: constraints[0], maxLength: constraints[1] });
+            case ValidationTypes.MIN_LENGTH:
+                return { type: "string", minLength: constraints[0] };
+            case ValidationTypes.MAX_LENGTH:
+                return { type: "string", maxLength: constraints[0] };
+            case ValidationTypes.MATCHES:
+                return { type: "string", pattern: constraints[0] instanceof RegExp ? constraints[0].source : constraints[0] };
+            case ValidationTypes.IS_BOOLEAN_STRING:
+            case ValidationTypes.IS_NUMBER_STRING:
+            case ValidationTypes.CONTAINS:
+            case ValidationTypes.NOT_CONTAINS:
+            case ValidationTypes.IS_ALPHA:
+            case ValidationTypes.IS_ALPHANUMERIC:
+            case ValidationTypes.IS_DECIMAL:
+            case ValidationTypes.IS_ASCII:
+            case ValidationTypes.IS_BYTE_LENGTH:
+            case ValidationTypes.IS_CREDIT_CARD:
+            case ValidationTypes.IS_CURRENCY:
+            case ValidationTypes.IS_FULL_WIDTH:
+            case ValidationTypes.IS_HALF_WIDTH:
+            case ValidationTypes.IS_VARIABLE_WIDTH:
+            case ValidationTypes.IS_HEX_COLOR:
+            case ValidationTypes.IS_HEXADECIMAL:
+            case ValidationTypes.IS_MAC_ADDRESS:
+            case ValidationTypes.IS_PORT:
+            case ValidationTypes.IS_ISBN:
+            case ValidationTypes.IS_ISIN:
+            case ValidationTypes.IS_JWT:
+            case ValidationTypes.IS_LOWERCASE:
+            case ValidationTypes.IS_UPPERCASE:
+            case ValidationTypes.IS_MOBILE_PHONE:
+            case ValidationTypes.IS_ISO31661_ALPHA_2:
+            case ValidationTypes.IS_ISO31661_ALPHA_3:
+            case ValidationTypes.IS_MULTIBYTE:
+            case ValidationTypes.IS_SURROGATE_PAIR:
+            case ValidationTypes.IS_LATLONG:
+            case ValidationTypes.IS_HASH:
+            case ValidationTypes.IS_ISSN:
+                return { type: "string" };
+
+            /* object checkers */
+            case ValidationTypes.IS_OBJECT:
+            case ValidationTypes.IS_INSTANCE:
+                return { type: "object" };
+            case ValidationTypes.IS_NOT_EMPTY_OBJECT:
+                return { type: "object", minProperties: 1 };
+
+            /* array checkers */
+            case ValidationTypes.ARRAY_CONTAINS:
+                return { type: "array", allOf: (constraints[0] as any[]).map(value => ({ contains: { const: value } })) };
+            case ValidationTypes.ARRAY_NOT_CONTAINS:
+                return { type: "array", items: { not: { enum: constraints[0] } } };
+            case ValidationTypes.ARRAY_NOT_EMPTY:
+                return { type: "array", minItems: 1 };
+            case ValidationTypes.ARRAY_MIN_SIZE:
+                return { type: "array", minItems: constraints[0] };
+            case ValidationTypes.ARRAY_MAX_SIZE:
+                return { type: "array", maxItems: constraints[0] };
+            case ValidationTypes.ARRAY_UNIQUE:
+                return { type: "array", uniqueItems: true };
+        }
+
+        return {};
+    }
+
+    /**
+     * Merges keywords into the schema. Keywords conflicting with already existing ones are put into "allOf".
+     */
+    private mergeKeywords(schema: JsonSchema, keywords: JsonSchema) {
+        Object.keys(keywords).forEach(keyword => {
+            if (schema[keyword] === undefined) {
+                schema[keyword] = keywords[keyword];
+
+            } else if (keyword === "allOf") {
+                schema.allOf = schema.allOf.concat(keywords.allOf);
+
+            } else if (JSON.stringify(schema[keyword]) !== JSON.stringify(keywords[keyword])) {
+                schema.allOf = (schema.allOf || []).concat([{ [keyword]: keywords[keyword] }]);
+            }
+        });
+    }
+
+    /**
+     * Checks if property must be listed in "required" keyword. Optional properties (@IsOptional, @ValidateIf),
+     * properties which are only nested, whitelisted or converted are not required.
+     */
+    private isRequired(metadatas: ValidationMetadata[]): boolean {
+        if (metadatas.some(metadata => metadata.type === ValidationTypes.IS_DEFINED))
+            return true;
+        if (this.options.skipMissingProperties)
+            return false;
+        if (metadatas.some(metadata => metadata.type === ValidationTypes.CONDITIONAL_VALIDATION ||
+                metadata.type === ValidationTypes.REQUIRED_IF ||
+                metadata.type === ValidationTypes.REQUIRED_WITH ||
+                metadata.type === ValidationTypes.REQUIRED_WITHOUT))
+            return false;
+
+        return metadatas.some(metadata => metadata.type !== ValidationTypes.NESTED_VALIDATION &&
+            metadata.type !== ValidationTypes.PROMISE_VALIDATION &&
+            metadata.type !== ValidationTypes.KEYS_VALIDATION &&
+            metadata.type !== ValidationTypes.WHITELIST &&
+            !ValidationTypes.isConversion(metadata.type));
+    }
+
+    /**
+     * Gets class of the nested value from the @IsInstance decorator or from emitted "design:type" metadata.
+     */
+    private getNestedType(metadatas: ValidationMetadata[]): Function {
+        const instanceMetadata = metadatas.find(metadata => metadata.type === ValidationTypes.IS_INSTANCE);
+        if (instanceMetadata && instanceMetadata.constraints && instanceMetadata.constraints[0] instanceof Function)
+            return instanceMetadata.constraints[0];
+
+        const designType = this.getDesignType(metadatas);
+        if (designType !== Object && designType !== Array && designType !== Set && designType !== Map)
+            return designType;
+
+        return undefined;
+    }
+
+    /**
+     * Gets type of the property emitted as "design:type" metadata, if reflect-metadata is loaded.
+     */
+    private getDesignType(metadatas: ValidationMetadata[]): Function {
+        const reflect = typeof Reflect !== "undefined" ? Reflect as any : undefined;
+        const metadata = metadatas[0];
+        if (!reflect || !(reflect.getMetadata instanceof Function) || !metadata || !(metadata.target instanceof Function))
+            return undefined;
+
+        const designType = reflect.getMetadata("design:type", metadata.target.prototype, metadata.propertyName);
+        return designType instanceof Function ? designType : undefined;
+    }
+
+    private getConstraintType(metadata: ValidationMetadata): string {
+        if (metadata.type === ValidationTypes.CUSTOM_VALIDATION) {
+            const constraintMetadata = this.metadataStorage.getTargetValidatorConstraints(metadata.constraintCls)[0];
+            if (constraintMetadata && constraintMetadata.name)
+                return constraintMetadata.name;
+        }
+
+        return metadata.type;
+    }
+
+    private omitUndefined(schema: JsonSchema): JsonSchema {
+        Object.keys(schema).forEach(keyword => {
+            if (schema[keyword] === undefined)
+                delete schema[keyword];
+        });
+        return schema;
+    }
+
+}
@@ -0,0 +1,42 @@
+import {ValidationMetadata} from "../metadata/ValidationMetadata";
+import {JsonSchema} from "./JsonSchema";
+
+/**
+ * Converts a single validation metadata into JSON Schema keywords.
+ */
+export type JsonSchemaKeywordConverter = (metadata: ValidationMetadata, options: JsonSchemaConverterOptions) => JsonSchema;
+
+/**
+ * Options used to convert validation metadatas into JSON Schema.
+ */
+export interface JsonSchemaConverterOptions {
+
+    /**
+     * Groups used to pick validation metadatas. All metadatas are converted if no groups are given.
+     */
+    groups?: string[];
+
+    /**
+     * If set to true then only properties decorated with @IsDefined are marked as required,
+     * the same way validator treats them when skipMissingProperties option is used.
+     */
+    skipMissingProperties?: boolean;
+
+    /**
+     * Value of the "additionalProperties" keyword set on every object schema.
+     * Set it to false if you validate with forbidNonWhitelisted option.
+     */
+    additionalProperties?: boolean;
+
+    /**
+     * Prefix of the "$ref" pointers to the nested class schemas. Default is "#/$defs/".
+     */
+    refPointerPrefix?: string;
+
+    /**
+     * Converters for custom constraints (registered via @ValidatorConstraint or registerDecorator) keyed by
+     * constraint name. Can also be used to override conversion of the built-in validation types.
+     */
+    additionalConverters?: { [type: string]: JsonSchemaKeywordConverter };
+
+}
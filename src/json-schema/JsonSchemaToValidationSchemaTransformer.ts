@@ -0,0 +1,258 @@
+import {ValidationSchema} from "../validation-schema/ValidationSchema";
+import {ValidationTypes} from "../validation/ValidationTypes";
+import {JsonSchema} from "./JsonSchema";
+
+/**
+ * Single validation of the validation schema property.
+ */
+type ValidationSchemaEntry = ValidationSchema["properties"][string][number];
+
+/**
+ * Used to transform JSON Schema documents to validation schemas.
+ * Keywords which can't be expressed by validation types are ignored.
+ */
+export class JsonSchemaToValidationSchemaTransformer {
+
+    // -------------------------------------------------------------------------
+    // Private Properties
+    // -------------------------------------------------------------------------
+
+    private rootSchema: JsonSchema;
+    private rootName: string;
+
+    /**
+     * Validation schemas created for the nested objects defined inline.
+     */
+    private inlineSchemas: ValidationSchema[] = [];
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Transforms the given JSON Schema document into a validation schema with the given name.
+     * Each definition found in "$defs" (or "definitions") becomes a separate validation schema named by its key,
+     * nested objects defined inline become validation schemas named by their path, e.g. "user.address".
+     */
+    transform(jsonSchema: JsonSchema, name: string): ValidationSchema[] {
+        this.rootSchema = jsonSchema;
+        this.rootName = name;
+        this.inlineSchemas = [];
+
+        const schemas = [this.transformObject(jsonSchema, name)];
+        const definitions = jsonSchema.$defs || jsonSchema.definitions || {};
+        Object.keys(definitions).forEach(definitionName => {
+            schemas.push(this.transformObject(definitions[definitionName], definitionName));
+        });
+        return schemas.concat(this.inlineSchemas);
+    }
+
+    // -------------------------------------------------------------------------
+    // Private Methods
+    // -------------------------------------------------------------------------
+
+    private transformObject(jsonSchema: JsonSchema, name: string): ValidationSchema {
+        const objectSchema = this.resolve(jsonSchema).schema;
+        const properties = this.collectProperties(objectSchema);
+        const required = this.collectRequired(objectSchema);
+
+        const schema: ValidationSchema = { name: name, properties: {} };
+        Object.keys(properties).forEach(propertyName => {
+            const isRequired = required.indexOf(propertyName) !== -1;
+            schema.properties[propertyName] = this.transformProperty(properties[propertyName], isRequired, name + "." + propertyName);
+        });
+        required
+            .filter(propertyName => !properties[propertyName])
+            .forEach(propertyName => schema.properties[propertyName] = [{ type: ValidationTypes.IS_DEFINED }]);
+
+        return schema;
+    }
+
+    private transformProperty(jsonSchema: JsonSchema, isRequired: boolean, path: string): ValidationSchemaEntry[] {
+        const propertySchema = this.resolve(jsonSchema).schema;
+        const types = this.getTypes(propertySchema);
+        const isNullable = types.indexOf("null") !== -1 || propertySchema.nullable === true;
+
+        const entries: ValidationSchemaEntry[] = [];
+        if (isRequired && !isNullable) {
+            entries.push({ type: ValidationTypes.IS_DEFINED });
+
+        } else if (isRequired) {
+            entries.push({
+                type: ValidationTypes.CONDITIONAL_VALIDATION,
+                constraints: [(object: any, value: any) => value !== null]
+            });
+
+        } else {
+            entries.push({
+                type: ValidationTypes.CONDITIONAL_VALIDATION,
+                constraints: [(object: any, value: any) => value !== undefined && (!isNullable || value !== null)]
+            });
+        }
+
+        return entries.concat(this.transformValue(jsonSchema, false, path));
+    }
+
+    /**
+     * Transforms keywords constraining a single value. If "each" is set then entries are applied to array items.
+     * Path is used to name validation schema of the nested object if it's defined inline.
+     */
+    private transformValue(jsonSchema: JsonSchema, each: boolean, path: string): ValidationSchemaEntry[] {
+        const schema = this.resolve(jsonSchema).schema;
+        const entries: ValidationSchemaEntry[] = [];
+        const add = (type: string, constraints: any[] = []) => entries.push({ type: type, constraints: constraints, each: each });
+
+        const types = this.getTypes(schema).filter(type => type !== "null");
+        if (types.length === 1) {
+            switch (types[0]) {
+                case "string":
+                    add(ValidationTypes.IS_STRING);
+                    break;
+                case "number":
+                    add(ValidationTypes.IS_NUMBER, [{}]);
+                    break;
+                case "integer":
+                    add(ValidationTypes.IS_INT);
+                    break;
+                case "boolean":
+                    add(ValidationTypes.IS_BOOLEAN);
+                    break;
+                case "array":
+                    add(ValidationTypes.IS_ARRAY);
+                    break;
+                case "object":
+                    add(ValidationTypes.IS_OBJECT);
+                    break;
+            }
+        }
+
+        const nestedSchemaName = this.getNestedSchemaName(jsonSchema, path);
+        if (nestedSchemaName)
+            entries.push({ type: ValidationTypes.NESTED_VALIDATION, nested: nestedSchemaName, each: each });
+
+        if (schema.enum instanceof Array)
+            add(ValidationTypes.IS_IN, [schema.enum]);
+        if (schema.const !== undefined)
+            add(ValidationTypes.EQUALS, [schema.const]);
+
+        /* string keywords */
+        if (typeof schema.minLength === "number")
+            add(ValidationTypes.MIN_LENGTH, [schema.minLength]);
+        if (typeof schema.maxLength === "number")
+            add(ValidationTypes.MAX_LENGTH, [schema.maxLength]);
+        if (typeof schema.pattern === "string")
+            add(ValidationTypes.MATCHES, [new RegExp(schema.pattern)]);
+        switch (schema.format) {
+            case "email":
+                add(ValidationTypes.IS_EMAIL);
+                break;
+            case "uri":
+                add(ValidationTypes.IS_URL);
+                break;
+            case "uuid":
+                add(ValidationTypes.IS_UUID);
+                break;
+            case "date":
+            case "date-time":
+                add(ValidationTypes.IS_ISO8601);
+                break;
+            case "ipv4":
+                add(ValidationTypes.IS_IP, [4]);
+                break;
+            case "ipv6":
+                add(ValidationTypes.IS_IP, [6]);
+                break;
+            case "hostname":
+                add(ValidationTypes.IS_FQDN);
+                break;
+        }
+
+        /* number keywords */
+        if (typeof schema.minimum === "number")
+            add(ValidationTypes.MIN, [schema.minimum]);
+        if (typeof schema.maximum === "number")
+            add(ValidationTypes.MAX, [schema.maximum]);
+        if (typeof schema.multipleOf === "number")
+            add(ValidationTypes.IS_DIVISIBLE_BY, [schema.multipleOf]);
+
+        /* array keywords, nested arrays can't be validated item by item */
+        if (!each) {
+            if (typeof schema.minItems === "number")
+                add(ValidationTypes.ARRAY_MIN_SIZE, [schema.minItems]);
+            if (typeof schema.maxItems === "number")
+                add(ValidationTypes.ARRAY_MAX_SIZE, [schema.maxItems]);
+            if (schema.uniqueItems === true)
+                add(ValidationTypes.ARRAY_UNIQUE);
+            if (schema.items && !(schema.items instanceof Array))
+                entries.push(...this.transformValue(schema.items, true, path));
+        }
+
+        /* all sub-schemas must be valid */
+        (schema.allOf || []).forEach(subSchema => entries.push(...this.transformValue(subSchema, each, path)));
+
+        return entries;
+    }
+
+    /**
+     * Resolves local "$ref" pointers ("#", "#/$defs/Name" and "#/definitions/Name").
+     */
+    private resolve(jsonSchema: JsonSchema): { name: string, schema: JsonSchema } {
+        if (!jsonSchema.$ref)
+            return { name: undefined, schema: jsonSchema };
+
+        if (jsonSchema.$ref === "#")
+            return { name: this.rootName, schema: this.rootSchema };
+
+        const [, container, name] = jsonSchema.$ref.match(/^#\/(\$defs|definitions)\/([^\/]+)$/) || [] as string[];
+        const definitions = container ? this.rootSchema[container] || {} : {};
+        if (!definitions[name])
+            throw new Error(`JSON Schema ${this.rootName} has unresolvable reference ${jsonSchema.$ref}`);
+
+        return { name: name, schema: definitions[name] };
+    }
+
+    /**
+     * Gets name of the validation schema nested object must be validated with.
+     * Validation schema is created if nested object is defined inline.
+     * References to the schemas of primitive values (e.g. enums) aren't validated as nested objects.
+     */
+    private getNestedSchemaName(jsonSchema: JsonSchema, path: string): string {
+        if (jsonSchema.$ref) {
+            const resolved = this.resolve(jsonSchema);
+            return this.isObjectSchema(resolved.schema) ? resolved.name : undefined;
+        }
+
+        if (!jsonSchema.properties)
+            return undefined;
+
+        this.inlineSchemas.push(this.transformObject(jsonSchema, path));
+        return path;
+    }
+
+    private isObjectSchema(jsonSchema: JsonSchema): boolean {
+        return !!jsonSchema.properties || !!jsonSchema.allOf || this.getTypes(jsonSchema).indexOf("object") !== -1;
+    }
+
+    private getTypes(jsonSchema: JsonSchema): string[] {
+        if (jsonSchema.type instanceof Array)
+            return jsonSchema.type;
+
+        return jsonSchema.type ? [jsonSchema.type] : [];
+    }
+
+    /**
+     * Collects properties of the schema and of its "allOf" sub-schemas.
+     */
+    private collectProperties(jsonSchema: JsonSchema): { [propertyName: string]: JsonSchema } {
+        const properties: { [propertyName: string]: JsonSchema } = {};
+        (jsonSchema.allOf || []).forEach(subSchema => Object.assign(properties, this.collectProperties(this.resolve(subSchema).schema)));
+        return Object.assign(properties, jsonSchema.properties || {});
+    }
+
+    private collectRequired(jsonSchema: JsonSchema): string[] {
+        return (jsonSchema.allOf || []).reduce((required, subSchema) => {
+            return required.concat(this.collectRequired(this.resolve(subSchema).schema));
+        }, jsonSchema.required || []);
+    }
+
+}
@@ -0,0 +1,120 @@
+import {JsonSchema} from "./JsonSchema";
+import {JsonSchemaConverter} from "./JsonSchemaConverter";
+import {JsonSchemaConverterOptions} from "./JsonSchemaConverterOptions";
+import {MetadataStorage} from "../metadata/MetadataStorage";
+import {getFromContainer} from "../container";
+
+/**
+ * Converts validation metadatas of the classes into OpenAPI 3 "components.schemas" object.
+ */
+export class OpenApiConverter {
+
+    // -------------------------------------------------------------------------
+    // Constants
+    // -------------------------------------------------------------------------
+
+    static REF_POINTER_PREFIX = "#/components/schemas/";
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    /**
+     * Creates converter of the validation metadatas registered in the given metadata storage,
+     * by default in the storage from the container.
+     */
+    constructor(private options: JsonSchemaConverterOptions = {},
+                readonly metadataStorage: MetadataStorage = getFromContainer(MetadataStorage)) {
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Converts the given classes and all classes nested in them into OpenAPI schema objects keyed by class name.
+     */
+    convert(targets: Function[]): { [name: string]: JsonSchema } {
+        const options = Object.assign({ refPointerPrefix: OpenApiConverter.REF_POINTER_PREFIX }, this.options);
+        const definitions = new JsonSchemaConverter(options, this.metadataStorage).convertDefinitions(targets);
+        Object.keys(definitions).forEach(name => {
+            definitions[name] = this.toOpenApiSchema(definitions[name]);
+        });
+        return definitions;
+    }
+
+    // -------------------------------------------------------------------------
+    // Private Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Replaces JSON Schema keywords not supported by OpenAPI 3 schema objects with their OpenAPI equivalents.
+     */
+    private toOpenApiSchema(jsonSchema: JsonSchema): JsonSchema {
+        const schema: JsonSchema = {};
+        Object.keys(jsonSchema).forEach(keyword => {
+            const value = jsonSchema[keyword];
+            switch (keyword) {
+                case "const":
+                    this.addKeywords(schema, { enum: [value] });
+                    break;
+                case "exclusiveMinimum":
+                    this.addKeywords(schema, { minimum: value, exclusiveMinimum: true });
+                    break;
+                case "exclusiveMaximum":
+                    this.addKeywords(schema, { maximum: value, exclusiveMaximum: true });
+                    break;
+                case "contentEncoding":
+                    if (value === "base64")
+                        this.addKeywords(schema, { format: "byte" });
+                    break;
+                case "contentMediaType":
+                case "propertyNames":
+                    break;
+                case "properties":
+                    schema.properties = {};
+                    Object.keys(value).forEach(propertyName => {
+                        schema.properties[propertyName] = this.toOpenApiSchema(value[propertyName]);
+                    });
+                    break;
+                case "additionalProperties":
+                    this.addKeywords(schema, { additionalProperties: value instanceof Object ? this.toOpenApiSchema(value) : value });
+                    break;
+                case "items":
+                case "not":
+                    this.addKeywords(schema, { [keyword]: this.toOpenApiSchema(value) });
+                    break;
+                case "allOf":
+                case "anyOf":
+                case "oneOf":
+                    this.addKeywords(schema, { [keyword]: (value as JsonSchema[]).map(subSchema => this.toOpenApiSchema(subSchema)) });
+                    break;
+                default:
+                    this.addKeywords(schema, { [keyword]: value });
+            }
+        });
+
+        // OpenAPI 3 ignores siblings of the "$ref", so reference is moved into "allOf"
+        if (schema.$ref && Object.keys(schema).length > 1) {
+            schema.allOf = ([{ $ref: schema.$ref }] as JsonSchema[]).concat(schema.allOf || []);
+            delete schema.$ref;
+        }
+
+        return schema;
+    }
+
+    /**
+     * Adds keywords to the schema. Keywords already existing in the schema are put into "allOf".
+     */
+    private addKeywords(schema: JsonSchema, keywords: JsonSchema) {
+        const hasConflict = Object.keys(keywords).some(keyword => keyword !== "allOf" && schema[keyword] !== undefined);
+        if (hasConflict) {
+            schema.allOf = (schema.allOf || []).concat([keywords]);
+        } else if (keywords.allOf) {
+            schema.allOf = (schema.allOf || []).concat(keywords.allOf);
+        } else {
+            Object.assign(schema, keywords);
+        }
+    }
+
+}
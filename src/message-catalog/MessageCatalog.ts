@@ -0,0 +1,27 @@
+import {ValidationArguments} from "../validation/ValidationArguments";
+
+/**
+ * Default messages of the single locale keyed by constraint type, e.g. "minLength" or custom constraint name.
+ * Messages can use ICU-style placeholders, e.g. "{property} muss mindestens {constraint1, plural, one {# Zeichen} other {# Zeichen}} lang sein".
+ */
+export interface MessageCatalog {
+
+    /**
+     * Messages keyed by constraint type.
+     */
+    messages: {
+        [type: string]: string | ((args: ValidationArguments) => string);
+    };
+
+    /**
+     * Prefix of the messages of constraints applied to each item of the array, e.g. "each value in ".
+     */
+    eachPrefix?: string;
+
+    /**
+     * Locale to take missing messages from. By default messages are taken from the parent locale,
+     * e.g. "de" for "de-AT", and then from the default locale.
+     */
+    fallback?: string;
+
+}
@@ -0,0 +1,99 @@
+import {ValidationArguments} from "../validation/ValidationArguments";
+import {MessageCatalog} from "./MessageCatalog";
+
+/**
+ * Storage of the registered message catalogs.
+ */
+export class MessageCatalogStorage {
+
+    /**
+     * Locale used when no locale is given and at the end of every fallback chain.
+     * Built-in English messages are used if default locale catalog has no message for the constraint.
+     */
+    static DEFAULT_LOCALE = "en";
+
+    // -------------------------------------------------------------------------
+    // Private properties
+    // -------------------------------------------------------------------------
+
+    private catalogs = new Map<string, MessageCatalog>();
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Adds a new message catalog. Messages of already registered catalog of the same locale are overridden.
+     */
+    addCatalog(locale: string, catalog: MessageCatalog): void {
+        const key = this.normalizeLocale(locale);
+        const existingCatalog = this.catalogs.get(key);
+        if (!existingCatalog) {
+            this.catalogs.set(key, { messages: Object.assign({}, catalog.messages), eachPrefix: catalog.eachPrefix, fallback: catalog.fallback });
+            return;
+        }
+
+        Object.assign(existingCatalog.messages, catalog.messages);
+        if (catalog.eachPrefix !== undefined)
+            existingCatalog.eachPrefix = catalog.eachPrefix;
+        if (catalog.fallback !== undefined)
+            existingCatalog.fallback = catalog.fallback;
+    }
+
+    /**
+     * Gets locales messages are looked up in, e.g. ["de-at", "de", "en"] for "de-AT".
+     */
+    getFallbackChain(locale?: string): string[] {
+        const chain: string[] = [];
+        let current = locale ? this.normalizeLocale(locale) : undefined;
+        while (current && chain.indexOf(current) === -1) {
+            chain.push(current);
+            const catalog = this.catalogs.get(current);
+            if (catalog && catalog.fallback) {
+                current = this.normalizeLocale(catalog.fallback);
+            } else {
+                current = current.indexOf("-") !== -1 ? current.substr(0, current.lastIndexOf("-")) : undefined;
+            }
+        }
+
+        if (chain.indexOf(MessageCatalogStorage.DEFAULT_LOCALE) === -1)
+            chain.push(MessageCatalogStorage.DEFAULT_LOCALE);
+
+        return chain;
+    }
+
+    /**
+     * Gets message of the given constraint type from the first catalog of the locale's fallback chain having it.
+     * Catalog of the default locale can be excluded, e.g. so the own default messages of custom constraints take precedence over it.
+     */
+    getMessage(type: string,
+               locale: string,
+               isEach: boolean,
+               includeDefaultLocale: boolean = true): string | ((args: ValidationArguments) => string) {
+        const catalog = this.getFallbackChain(locale)
+            .filter(chainLocale => includeDefaultLocale || chainLocale !== MessageCatalogStorage.DEFAULT_LOCALE)
+            .map(chainLocale => this.catalogs.get(chainLocale))
+            .find(chainCatalog => !!chainCatalog && chainCatalog.messages[type] !== undefined);
+        if (!catalog)
+            return undefined;
+
+        const message = catalog.messages[type];
+        const eachPrefix = isEach ? (catalog.eachPrefix !== undefined ? catalog.eachPrefix : "each value in ") : "";
+        if (!eachPrefix)
+            return message;
+
+        return message instanceof Function ? (args: ValidationArguments) => eachPrefix + message(args) : eachPrefix + message;
+    }
+
+    // -------------------------------------------------------------------------
+    // Private Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Locales are compared case-insensitively, "de_AT" is the same as "de-AT".
+     */
+    private normalizeLocale(locale: string): string {
+        return locale.replace(/_/g, "-").toLowerCase();
+    }
+
+}
@@ -0,0 +1,119 @@
+/**
+ * Formats messages with ICU-style arguments:
+ * "{property}" placeholders, "{constraint1, plural, =0 {no items} one {# item} other {# items}}" plurals and
+ * "{value, select, admin {administrator} other {user}}" selects.
+ * Placeholders of unknown arguments are left as is.
+ */
+export class MessageFormatter {
+
+    // -------------------------------------------------------------------------
+    // Public Static Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Formats the given message using the given arguments, plural categories are selected by the given locale rules.
+     */
+    static format(message: string, args: { [name: string]: any }, locale?: string): string {
+        let result = "";
+        let index = 0;
+        while (index < message.length) {
+            const start = message.indexOf("{", index);
+            const end = start !== -1 ? this.findClosingBrace(message, start) : -1;
+            if (end === -1) {
+                result += message.substr(index);
+                break;
+            }
+
+            result += message.substring(index, start) + this.formatArgument(message.substring(start, end + 1), args, locale);
+            index = end + 1;
+        }
+        return result;
+    }
+
+    // -------------------------------------------------------------------------
+    // Private Static Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Formats a single "{name}", "{name, plural, ...}" or "{name, select, ...}" argument.
+     */
+    private static formatArgument(argument: string, args: { [name: string]: any }, locale: string): string {
+        const body = argument.substring(1, argument.length - 1);
+        const [name, kind] = body.split(",", 2).map(part => part.trim());
+        if (!args.hasOwnProperty(name))
+            return argument;
+
+        const value = args[name];
+        if (kind === undefined)
+            return String(value);
+
+        const options = this.parseOptions(body.substr(body.indexOf(",", body.indexOf(",") + 1) + 1));
+        if (kind === "plural") {
+            const count = +value;
+            const option = options["=" + count] !== undefined ? options["=" + count] : options[this.getPluralCategory(count, locale)];
+            const selected = option !== undefined ? option : options["other"];
+            return selected !== undefined ? this.format(this.replaceCount(selected, count), args, locale) : argument;
+        }
+
+        if (kind === "select") {
+            const selected = options[String(value)] !== undefined ? options[String(value)] : options["other"];
+            return selected !== undefined ? this.format(selected, args, locale) : argument;
+        }
+
+        return argument;
+    }
+
+    /**
+     * Parses "key {message} key {message}" options of plural and select arguments.
+     */
+    private static parseOptions(optionsString: string): { [key: string]: string } {
+        const options: { [key: string]: string } = {};
+        let index = 0;
+        while (index < optionsString.length) {
+            const start = optionsString.indexOf("{", index);
+            const end = start !== -1 ? this.findClosingBrace(optionsString, start) : -1;
+            if (end === -1)
+                break;
+
+            options[optionsString.substring(index, start).trim()] = optionsString.substring(start + 1, end);
+            index = end + 1;
+        }
+        return options;
+    }
+
+    /**
+     * Replaces "#" with the count, except ones inside of the nested arguments.
+     */
+    private static replaceCount(message: string, count: number): string {
+        let depth = 0;
+        return message.split("").map(char => {
+            if (char === "{") depth++;
+            if (char === "}") depth--;
+            return char === "#" && depth === 0 ? String(count) : char;
+        }).join("");
+    }
+
+    private static getPluralCategory(count: number, locale: string): string {
+        const intl: any = typeof Intl !== "undefined" ? Intl : undefined;
+        if (intl && intl.PluralRules) {
+            try {
+                return new intl.PluralRules(locale).select(count);
+            } catch (error) {
+                // unsupported locale, fallback to the english rules
+            }
+        }
+        return count === 1 ? "one" : "other";
+    }
+
+    private static findClosingBrace(message: string, start: number): number {
+        let depth = 0;
+        for (let index = start; index < message.length; index++) {
+            if (message[index] === "{") depth++;
+            if (message[index] === "}") depth--;
+            if (depth === 0)
+                return index;
+        }
+        return -1;
+    }
+
+}
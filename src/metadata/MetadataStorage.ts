@@ -2,9 +2,17 @@ import {ValidationMetadata} from "./ValidationMetadata";
 import {ConstraintMetadata} from "./ConstraintMetadata";
 import {ValidationSchema} from "../validation-schema/ValidationSchema";
 import {ValidationSchemaToMetadataTransformer} from "../validation-schema/ValidationSchemaToMetadataTransformer";
+import {ValidationTypes} from "../validation/ValidationTypes";
+import {SanitizationMetadata} from "./SanitizationMetadata";
+import {SanitizationTypes} from "../sanitization/SanitizationTypes";
+import {MetadataStorageSnapshot} from "./MetadataStorageSnapshot";
+import {ValidationPlan} from "../validation/ValidationPlan";
+import {getFromContainer} from "../container";
 
 /**
  * Storage all metadatas.
+ * Decorators and validator use the storage from the container by default, separate storages can be created
+ * to isolate metadatas, e.g. of plugins or tests.
  */
 export class MetadataStorage {
 
@@ -14,6 +22,14 @@ export class MetadataStorage {
 
     private validationMetadatas: ValidationMetadata[] = [];
     private constraintMetadatas: ConstraintMetadata[] = [];
+    private sanitizationMetadatas: SanitizationMetadata[] = [];
+    private validationSchemaParents: { [schemaName: string]: string[] } = {};
+
+    /**
+     * Validation plans and constraints found for the targets, dropped when metadatas of the storage change.
+     */
+    private validationPlans = new Map<Function, Map<string, ValidationPlan>>();
+    private validatorConstraints = new Map<Function, ConstraintMetadata[]>();
 
     get hasValidationMetaData() {
         return !!this.validationMetadatas.length;
@@ -29,6 +45,9 @@ export class MetadataStorage {
     addValidationSchema(schema: ValidationSchema) {
         const validationMetadatas = new ValidationSchemaToMetadataTransformer().transform(schema);
         validationMetadatas.forEach(validationMetadata => this.addValidationMetadata(validationMetadata));
+        if (schema.extends)
+            this.validationSchemaParents[schema.name] = schema.extends;
+        this.invalidateCaches();
     }
     
     /**
@@ -36,6 +55,27 @@ export class MetadataStorage {
      */
     addValidationMetadata(metadata: ValidationMetadata) {
         this.validationMetadatas.push(metadata);
+        this.invalidateValidationPlans(metadata.target);
+    }
+
+    /**
+     * Removes validation metadatas of the given target and returns them.
+     * Used to collect metadatas of the decorators applied to the temporary targets.
+     */
+    removeTargetValidationMetadatas(target: Function): ValidationMetadata[] {
+        const targetMetadatas = this.validationMetadatas.filter(metadata => metadata.target === target);
+        if (targetMetadatas.length > 0) {
+            this.validationMetadatas = this.validationMetadatas.filter(metadata => metadata.target !== target);
+            this.invalidateValidationPlans(target);
+        }
+        return targetMetadatas;
+    }
+
+    /**
+     * Adds a new sanitization metadata.
+     */
+    addSanitizationMetadata(metadata: SanitizationMetadata) {
+        this.sanitizationMetadatas.push(metadata);
     }
 
     /**
@@ -43,6 +83,7 @@ export class MetadataStorage {
      */
     addConstraintMetadata(metadata: ConstraintMetadata) {
         this.constraintMetadatas.push(metadata);
+        this.invalidateCaches();
     }
 
     /**
@@ -75,11 +116,12 @@ export class MetadataStorage {
             return true;
         });
         
-        // get metadatas for inherited classes
+        // get metadatas for inherited classes and extended schemas
+        const ancestorSchemas = this.getValidationSchemaAncestors(targetSchema);
         const inheritedMetadatas = this.validationMetadatas.filter(metadata => {
-            // if target is a string it's means we validate agains a schema, and there is no inheritance support for schemas
+            // if target is a string it's means we validate against a schema, inherited are only the extended schemas
             if (typeof metadata.target === "string")
-                return false;
+                return ancestorSchemas.indexOf(metadata.target) !== -1;
             if (metadata.target === targetConstructor)
                 return false;
             if (metadata.target instanceof Function &&
@@ -93,22 +135,181 @@ export class MetadataStorage {
             return true;
         });
 
+        // metadatas of the closest extended schemas go first
+        const getSchemaDistance = (metadata: ValidationMetadata) => ancestorSchemas.indexOf(metadata.target as string);
+        inheritedMetadatas.sort((metadataA, metadataB) => getSchemaDistance(metadataA) - getSchemaDistance(metadataB));
+
         // filter out duplicate metadatas, prefer original metadatas instead of inherited metadatas
+        // and metadatas of the closest extended schemas instead of the distant ones
+        const uniqueInheritedMetadatas = inheritedMetadatas.filter((inheritedMetadata, index) => {
+            const isDuplicate = (metadata: ValidationMetadata) => {
+                return  metadata.propertyName === inheritedMetadata.propertyName &&
+                        metadata.type === inheritedMetadata.type &&
+                        (metadata.type !== ValidationTypes.CLASS_VALIDATION || metadata.constraintCls === inheritedMetadata.constraintCls);
+            };
+            if (originalMetadatas.find(isDuplicate))
+                return false;
+
+            return typeof inheritedMetadata.target !== "string" ||
+                !inheritedMetadatas.slice(0, index).find(metadata => typeof metadata.target === "string" && isDuplicate(metadata));
+        });
+
+        return originalMetadatas.concat(uniqueInheritedMetadatas);
+    }
+
+    /**
+     * Gets validation plan of the given object with the given groups.
+     * Plan is created once and reused until new metadata of the class or of its parents is added to the storage.
+     */
+    getValidationPlan(targetConstructor: Function, targetSchema: string, groups?: string[]): ValidationPlan {
+        let targetPlans = this.validationPlans.get(targetConstructor);
+        if (!targetPlans) {
+            targetPlans = new Map<string, ValidationPlan>();
+            this.validationPlans.set(targetConstructor, targetPlans);
+        }
+
+        const key = JSON.stringify([targetSchema, groups]);
+        let plan = targetPlans.get(key);
+        if (!plan) {
+            plan = new ValidationPlan(this.getTargetValidationMetadatas(targetConstructor, targetSchema, groups));
+            targetPlans.set(key, plan);
+        }
+        return plan;
+    }
+
+    /**
+     * Gets all sanitization metadatas for the given class with the given groups, including inherited ones.
+     * Inherited sanitizations are skipped if the class itself defines the same sanitization of the property.
+     */
+    getTargetSanitizationMetadatas(targetConstructor: Function, groups?: string[]): SanitizationMetadata[] {
+        const isInGroups = (metadata: SanitizationMetadata) => {
+            if (metadata.always || !groups || groups.length === 0)
+                return true;
+
+            return metadata.groups && !!metadata.groups.find(group => groups.indexOf(group) !== -1);
+        };
+
+        const originalMetadatas = this.sanitizationMetadatas.filter(metadata => metadata.target === targetConstructor && isInGroups(metadata));
+        const inheritedMetadatas = this.sanitizationMetadatas.filter(metadata => {
+            return metadata.target !== targetConstructor &&
+                targetConstructor.prototype instanceof metadata.target &&
+                isInGroups(metadata);
+        });
+
         const uniqueInheritedMetadatas = inheritedMetadatas.filter(inheritedMetadata => {
-            return !originalMetadatas.find(originalMetadata => {
-                return  originalMetadata.propertyName === inheritedMetadata.propertyName && 
-                        originalMetadata.type === inheritedMetadata.type;
+            return !originalMetadatas.find(metadata => {
+                return metadata.propertyName === inheritedMetadata.propertyName &&
+                    metadata.type === inheritedMetadata.type &&
+                    (metadata.type !== SanitizationTypes.CUSTOM_SANITIZATION || metadata.constraintCls === inheritedMetadata.constraintCls);
             });
         });
 
         return originalMetadatas.concat(uniqueInheritedMetadatas);
     }
 
+    /**
+     * Gets names of all schemas the given schema extends, closest ones go first.
+     */
+    getValidationSchemaAncestors(schemaName: string): string[] {
+        const ancestors: string[] = [];
+        let parents = this.validationSchemaParents[schemaName] || [];
+        while (parents.length > 0) {
+            const newParents = parents.filter((parent, index) => {
+                return parents.indexOf(parent) === index && parent !== schemaName && ancestors.indexOf(parent) === -1;
+            });
+            ancestors.push(...newParents);
+            parents = newParents.reduce((grandParents, parent) => {
+                return grandParents.concat(this.validationSchemaParents[parent] || []);
+            }, [] as string[]);
+        }
+        return ancestors;
+    }
+
     /**
      * Gets all validator constraints for the given object.
+     * Constraint classes registered in the default storage can be used by validations of any other storage.
      */
     getTargetValidatorConstraints(target: Function): ConstraintMetadata[] {
-        return this.constraintMetadatas.filter(metadata => metadata.target === target);
+        const constraintMetadatas = this.getOwnValidatorConstraints(target);
+        const defaultStorage = getFromContainer(MetadataStorage);
+        if (constraintMetadatas.length === 0 && defaultStorage !== this)
+            return defaultStorage.getOwnValidatorConstraints(target);
+
+        return constraintMetadatas;
+    }
+
+    /**
+     * Removes all metadatas and extended schemas from the storage.
+     */
+    clear() {
+        this.validationMetadatas = [];
+        this.constraintMetadatas = [];
+        this.sanitizationMetadatas = [];
+        this.validationSchemaParents = {};
+        this.invalidateCaches();
+    }
+
+    /**
+     * Takes snapshot of the current metadatas, which can be restored later, e.g. after each test.
+     */
+    snapshot(): MetadataStorageSnapshot {
+        return {
+            validationMetadatas: this.validationMetadatas.slice(),
+            constraintMetadatas: this.constraintMetadatas.slice(),
+            sanitizationMetadatas: this.sanitizationMetadatas.slice(),
+            validationSchemaParents: Object.assign({}, this.validationSchemaParents)
+        };
+    }
+
+    /**
+     * Replaces metadatas of the storage with the ones of the given snapshot.
+     * Metadatas added after the snapshot was taken are removed.
+     */
+    restore(snapshot: MetadataStorageSnapshot) {
+        this.validationMetadatas = snapshot.validationMetadatas.slice();
+        this.constraintMetadatas = snapshot.constraintMetadatas.slice();
+        this.sanitizationMetadatas = snapshot.sanitizationMetadatas.slice();
+        this.validationSchemaParents = Object.assign({}, snapshot.validationSchemaParents);
+        this.invalidateCaches();
     }
 
-}
\ No newline at end of file
+    // -------------------------------------------------------------------------
+    // Private Methods
+    // -------------------------------------------------------------------------
+
+    private getOwnValidatorConstraints(target: Function): ConstraintMetadata[] {
+        let constraintMetadatas = this.validatorConstraints.get(target);
+        if (!constraintMetadatas) {
+            constraintMetadatas = this.constraintMetadatas.filter(metadata => metadata.target === target);
+            this.validatorConstraints.set(target, constraintMetadatas);
+        }
+        return constraintMetadatas;
+    }
+
+    /**
+     * Drops validation plans the metadatas of the given target are part of: plans of the class and of its subclasses.
+     * Plans of the schemas are dropped whenever schema metadatas change, as schemas can extend each other.
+     */
+    private invalidateValidationPlans(target: Function|string) {
+        if (!(target instanceof Function))
+            return this.validationPlans.clear();
+
+        this.validationPlans.forEach((plans, planTarget) => {
+            if (!(planTarget instanceof Function) || planTarget === target || planTarget.prototype instanceof target)
+                this.validationPlans.delete(planTarget);
+        });
+    }
+
+    private invalidateCaches() {
+        this.validationPlans.clear();
+        this.validatorConstraints.clear();
+    }
+
+}
+
+/**
+ * Gets metadata storage given in the decorator options, or the default storage from the container.
+ */
+export function getMetadataStorage(options?: { metadataStorage?: MetadataStorage }): MetadataStorage {
+    return options && options.metadataStorage ? options.metadataStorage : getFromContainer(MetadataStorage);
+}
@@ -0,0 +1,30 @@
+import {ValidationMetadata} from "./ValidationMetadata";
+import {ConstraintMetadata} from "./ConstraintMetadata";
+import {SanitizationMetadata} from "./SanitizationMetadata";
+
+/**
+ * Metadatas held by the MetadataStorage at the moment the snapshot was taken.
+ */
+export interface MetadataStorageSnapshot {
+
+    /**
+     * Validation metadatas of classes and schemas.
+     */
+    validationMetadatas: ValidationMetadata[];
+
+    /**
+     * Metadatas of validator and sanitizer constraint classes.
+     */
+    constraintMetadatas: ConstraintMetadata[];
+
+    /**
+     * Sanitization metadatas of classes.
+     */
+    sanitizationMetadatas: SanitizationMetadata[];
+
+    /**
+     * Names of the schemas extended by validation schemas.
+     */
+    validationSchemaParents: { [schemaName: string]: string[] };
+
+}
@@ -0,0 +1,69 @@
+import {SanitizationMetadataArgs} from "./SanitizationMetadataArgs";
+
+/**
+ * This metadata contains sanitization rules.
+ */
+export class SanitizationMetadata {
+
+    // -------------------------------------------------------------------------
+    // Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Sanitization type.
+     */
+    type: string;
+
+    /**
+     * Target class to which this sanitization is applied.
+     */
+    target: Function;
+
+    /**
+     * Property of the object to be sanitized.
+     */
+    propertyName: string;
+
+    /**
+     * Constraint class that performs sanitization. Used only for custom sanitizations.
+     */
+    constraintCls: Function;
+
+    /**
+     * Array of constraints of this sanitization.
+     */
+    constraints: any[];
+
+    /**
+     * Sanitization groups used for this sanitization.
+     */
+    groups: string[] = [];
+
+    /**
+     * Indicates if sanitization must be performed always, no matter of sanitization groups used.
+     */
+    always: boolean = false;
+
+    /**
+     * Specifies if sanitized value is an array and each of its item must be sanitized.
+     */
+    each: boolean = false;
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(args: SanitizationMetadataArgs) {
+        this.type = args.type;
+        this.target = args.target;
+        this.propertyName = args.propertyName;
+        this.constraints = args.constraints;
+        this.constraintCls = args.constraintCls;
+        if (args.sanitizationOptions) {
+            this.groups = args.sanitizationOptions.groups;
+            this.always = args.sanitizationOptions.always;
+            this.each = args.sanitizationOptions.each;
+        }
+    }
+
+}
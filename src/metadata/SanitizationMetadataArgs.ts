@@ -0,0 +1,37 @@
+import {SanitizationOptions} from "../decorator/SanitizationOptions";
+
+/**
+ * Constructor arguments for SanitizationMetadata class.
+ */
+export interface SanitizationMetadataArgs {
+
+    /**
+     * Sanitization type.
+     */
+    type: string;
+
+    /**
+     * Class of the object to be sanitized.
+     */
+    target: Function;
+
+    /**
+     * Property of the object to be sanitized.
+     */
+    propertyName: string;
+
+    /**
+     * Constraint class that performs sanitization. Used only for custom sanitizations.
+     */
+    constraintCls?: Function;
+
+    /**
+     * Array of constraints of this sanitization.
+     */
+    constraints?: any[];
+
+    /**
+     * Sanitization options.
+     */
+    sanitizationOptions?: SanitizationOptions;
+}
@@ -55,6 +55,28 @@ export class ValidationMetadata {
      */
     each: boolean = false;
 
+    /**
+     * Specifies if validated value is a plain object used as a dictionary.
+     */
+    dictionary: boolean = false;
+
+    /**
+     * Validations of the property are performed in ascending order of their priority.
+     * If not set then default priority of the validation type is used.
+     */
+    priority: number;
+
+    /**
+     * Indicates if remaining validations of the property must be skipped when this validation fails.
+     */
+    bail: boolean = false;
+
+    /**
+     * Indicates if "each" validation must report its failures per item.
+     * If not set then "itemErrors" option of the validator is used.
+     */
+    itemErrors?: boolean;
+
     /*
      * A transient set of data passed through to the validation result for response mapping
      */
@@ -81,6 +103,10 @@ export class ValidationMetadata {
             this.groups = args.validationOptions.groups;
             this.always = args.validationOptions.always;
             this.each = args.validationOptions.each;
+            this.dictionary = args.validationOptions.dictionary;
+            this.bail = args.validationOptions.bail;
+            this.itemErrors = args.validationOptions.itemErrors;
+            this.priority = args.validationOptions.priority;
             this.context = args.validationOptions.context;
         }
     }
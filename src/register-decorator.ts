@@ -1,12 +1,12 @@
 import {ValidatorOptions} from "./validation/ValidatorOptions";
-import {MetadataStorage} from "./metadata/MetadataStorage";
+import {getMetadataStorage} from "./metadata/MetadataStorage";
 import {ConstraintMetadata} from "./metadata/ConstraintMetadata";
 import {ValidatorConstraintInterface} from "./validation/ValidatorConstraintInterface";
 import {ValidationMetadata} from "./metadata/ValidationMetadata";
 import {ValidationMetadataArgs} from "./metadata/ValidationMetadataArgs";
 import {ValidationTypes} from "./validation/ValidationTypes";
 import {ValidationArguments} from "./validation/ValidationArguments";
-import {getFromContainer} from "./container";
+import {ValidationOptions} from "./decorator/ValidationOptions";
 
 export interface ValidationDecoratorOptions {
 
@@ -51,6 +51,8 @@ export interface ValidationDecoratorOptions {
  */
 export function registerDecorator(options: ValidationDecoratorOptions): void {
 
+    const metadataStorage = getMetadataStorage(options.options as ValidationOptions);
+
     let constraintCls: Function;
     if (options.validator instanceof Function) {
         constraintCls = options.validator as Function;
@@ -69,7 +71,7 @@ export function registerDecorator(options: ValidationDecoratorOptions): void {
                 return "";
             }
         };
-        getFromContainer(MetadataStorage).addConstraintMetadata(new ConstraintMetadata(constraintCls, options.name, options.async));
+        metadataStorage.addConstraintMetadata(new ConstraintMetadata(constraintCls, options.name, options.async));
     }
 
     const validationMetadataArgs: ValidationMetadataArgs = {
@@ -80,5 +82,5 @@ export function registerDecorator(options: ValidationDecoratorOptions): void {
         constraintCls: constraintCls,
         constraints: options.constraints
     };
-    getFromContainer(MetadataStorage).addValidationMetadata(new ValidationMetadata(validationMetadataArgs));
+    metadataStorage.addValidationMetadata(new ValidationMetadata(validationMetadataArgs));
 }
@@ -0,0 +1,31 @@
+/**
+ * Arguments being sent to custom sanitizers.
+ */
+export interface SanitizationArguments {
+
+    /**
+     * Sanitizing value.
+     */
+    value: any;
+
+    /**
+     * Constraints set by this sanitization.
+     */
+    constraints: any[];
+
+    /**
+     * Name of the target that is being sanitized.
+     */
+    targetName: string;
+
+    /**
+     * Object that is being sanitized.
+     */
+    object: Object;
+
+    /**
+     * Name of the object's property being sanitized.
+     */
+    property: string;
+
+}
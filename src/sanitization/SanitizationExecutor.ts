@@ -0,0 +1,187 @@
+import {Sanitizer} from "./Sanitizer";
+import {SanitizerOptions} from "./SanitizerOptions";
+import {SanitizationTypes} from "./SanitizationTypes";
+import {SanitizationArguments} from "./SanitizationArguments";
+import {SanitizerConstraintInterface} from "./SanitizerConstraintInterface";
+import {SanitizationMetadata} from "../metadata/SanitizationMetadata";
+import {ConstraintMetadata} from "../metadata/ConstraintMetadata";
+import {getFromContainer} from "../container";
+import {isPromise} from "../utils";
+
+/**
+ * Executes sanitization over given object.
+ */
+export class SanitizationExecutor {
+
+    // -------------------------------------------------------------------------
+    // Properties
+    // -------------------------------------------------------------------------
+
+    awaitingPromises: Promise<any>[] = [];
+    ignoreAsyncSanitizations: boolean = false;
+
+    // -------------------------------------------------------------------------
+    // Private Properties
+    // -------------------------------------------------------------------------
+
+    private metadataStorage = this.sanitizer.metadataStorage;
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(private sanitizer: Sanitizer,
+                private sanitizerOptions?: SanitizerOptions) {
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Sanitizes properties of the given object and writes sanitized values back to the object.
+     * Sanitizations of the property are applied in the order decorators are applied, i.e. from the bottom one to the top one.
+     */
+    execute(object: Object) {
+        const groups = this.sanitizerOptions ? this.sanitizerOptions.groups : undefined;
+        const metadatas = this.metadataStorage.getTargetSanitizationMetadatas(object.constructor, groups);
+        const groupedMetadatas: { [propertyName: string]: SanitizationMetadata[] } = {};
+        metadatas.forEach(metadata => {
+            if (!groupedMetadatas[metadata.propertyName])
+                groupedMetadatas[metadata.propertyName] = [];
+            groupedMetadatas[metadata.propertyName].push(metadata);
+        });
+
+        Object.keys(groupedMetadatas).forEach(propertyName => {
+            this.sanitizeProperty(object, propertyName, groupedMetadatas[propertyName]);
+        });
+    }
+
+    /**
+     * Waits for all async sanitizations, including ones started after the previous async sanitizations were finished.
+     */
+    awaitPromises(): Promise<void> {
+        const promisesCount = this.awaitingPromises.length;
+        return Promise.all(this.awaitingPromises).then(() => {
+            if (this.awaitingPromises.length > promisesCount)
+                return this.awaitPromises();
+        });
+    }
+
+    // -------------------------------------------------------------------------
+    // Private Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Applies the given sanitizations one by one, the next sanitization gets the value sanitized by the previous one.
+     */
+    private sanitizeProperty(object: any, propertyName: string, metadatas: SanitizationMetadata[]) {
+        metadatas.some((metadata, index) => {
+            if (metadata.type === SanitizationTypes.NESTED_SANITIZATION) {
+                this.nestedSanitizations(object[propertyName]);
+                return false;
+            }
+
+            const sanitizedValue = this.sanitizeValue(object, propertyName, object[propertyName], metadata);
+            if (isPromise(sanitizedValue)) {
+                this.awaitingPromises.push(sanitizedValue.then(value => {
+                    object[propertyName] = value;
+                    this.sanitizeProperty(object, propertyName, metadatas.slice(index + 1));
+                }));
+                return true;
+            }
+
+            object[propertyName] = sanitizedValue;
+            return false;
+        });
+    }
+
+    /**
+     * Sanitizes the given value, or each its item if sanitization is set to "each".
+     */
+    private sanitizeValue(object: Object, propertyName: string, value: any, metadata: SanitizationMetadata): any {
+        if (!metadata.each || !(value instanceof Array || value instanceof Set || value instanceof Map))
+            return this.sanitizeItem(object, propertyName, value, metadata);
+
+        const entries: any[][] = value instanceof Map
+            ? Array.from(value.entries())
+            : Array.from(value as Array<any>|Set<any>).map((item, index) => [index, item]);
+        const sanitizedItems = entries.map(([key, item]) => this.sanitizeItem(object, propertyName, item, metadata));
+        const createCollection = (items: any[]) => {
+            if (value instanceof Map)
+                return new Map(entries.map(([key], index) => [key, items[index]] as [any, any]));
+            return value instanceof Set ? new Set(items) : items;
+        };
+
+        if (sanitizedItems.some(item => isPromise(item)))
+            return Promise.all(sanitizedItems).then(items => createCollection(items));
+
+        return createCollection(sanitizedItems);
+    }
+
+    private sanitizeItem(object: Object, propertyName: string, value: any, metadata: SanitizationMetadata): any {
+        if (metadata.type !== SanitizationTypes.CUSTOM_SANITIZATION)
+            return this.sanitizer.sanitizeValueByMetadata(value, metadata);
+
+        return this.metadataStorage
+            .getTargetValidatorConstraints(metadata.constraintCls)
+            .reduce((sanitizedValue, customConstraintMetadata) => {
+                if (customConstraintMetadata.async && this.ignoreAsyncSanitizations) {
+                    this.skipAsyncSanitization(object, propertyName, customConstraintMetadata);
+                    return sanitizedValue;
+                }
+
+                const sanitizationArguments: SanitizationArguments = {
+                    targetName: object.constructor ? (object.constructor as any).name : undefined,
+                    property: propertyName,
+                    object: object,
+                    value: sanitizedValue,
+                    constraints: metadata.constraints
+                };
+                const constraint = getFromContainer<SanitizerConstraintInterface>(customConstraintMetadata.target);
+                if (isPromise(sanitizedValue))
+                    return sanitizedValue.then(resolvedValue => constraint.sanitize(resolvedValue, Object.assign(sanitizationArguments, { value: resolvedValue })));
+
+                const result = constraint.sanitize(sanitizedValue, sanitizationArguments);
+                if (isPromise(result) && this.ignoreAsyncSanitizations) {
+                    // value is left as is, so result is not awaited and its rejection is not reported as unhandled
+                    result.then(undefined, () => undefined);
+                    this.skipAsyncSanitization(object, propertyName, customConstraintMetadata);
+                    return sanitizedValue;
+                }
+                return result;
+            }, value);
+    }
+
+    /**
+     * Handles sanitizer skipped by the sync sanitization according to the "asyncMode" option:
+     * ignores it, warns about it or throws an error.
+     */
+    private skipAsyncSanitization(object: Object, propertyName: string, constraint: ConstraintMetadata) {
+        const defaultAsyncMode = constraint.async ? "ignore" : "warn";
+        const asyncMode = this.sanitizerOptions && this.sanitizerOptions.asyncMode ? this.sanitizerOptions.asyncMode : defaultAsyncMode;
+        if (asyncMode === "ignore")
+            return;
+
+        const target = (object.constructor ? (object.constructor as any).name : undefined) + "." + propertyName;
+        const message = constraint.async
+            ? `Async sanitizer "${constraint.name}" of ${target} can't be performed by sync sanitization.`
+            : `Sanitizer "${constraint.name}" of ${target} is not marked as async, but returned a promise, ` +
+              `which can't be awaited by sync sanitization.`;
+        if (asyncMode === "error")
+            throw new Error(message);
+
+        console.warn(message);
+    }
+
+    private nestedSanitizations(value: any) {
+        if (value instanceof Array || value instanceof Set || value instanceof Map) {
+            const items = value instanceof Map ? Array.from(value.values()) : Array.from(value as Array<any>|Set<any>);
+            items.forEach(item => this.nestedSanitizations(item));
+
+        } else if (value instanceof Object) {
+            this.execute(value);
+        }
+    }
+
+}
@@ -0,0 +1,29 @@
+/**
+ * Sanitization types.
+ */
+export class SanitizationTypes {
+
+    /* system */
+    static CUSTOM_SANITIZATION = "customSanitization";
+    static NESTED_SANITIZATION = "nestedSanitization";
+
+    /* string sanitizers */
+    static BLACKLIST = "blacklist";
+    static ESCAPE = "escape";
+    static LTRIM = "ltrim";
+    static NORMALIZE_EMAIL = "normalizeEmail";
+    static RTRIM = "rtrim";
+    static STRIP_LOW = "stripLow";
+    static TO_INT = "toInt";
+    static TRIM = "trim";
+    static WHITELIST = "whitelist";
+
+    /**
+     * Checks if sanitization type is valid.
+     */
+    static isValid(type: string) {
+        return type !== "isValid" &&
+            Object.keys(this).map(key => (this as any)[key]).indexOf(type) !== -1;
+    }
+
+}
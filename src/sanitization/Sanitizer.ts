@@ -0,0 +1,157 @@
+import {SanitizationMetadata} from "../metadata/SanitizationMetadata";
+import {SanitizationTypes} from "./SanitizationTypes";
+import {SanitizationExecutor} from "./SanitizationExecutor";
+import {SanitizerOptions} from "./SanitizerOptions";
+import {MetadataStorage} from "../metadata/MetadataStorage";
+import {getFromContainer} from "../container";
+import * as validator from "validator";
+
+/**
+ * Sanitizer performs sanitization of the given object based on its metadata.
+ */
+export class Sanitizer {
+
+    // -------------------------------------------------------------------------
+    // Private Properties
+    // -------------------------------------------------------------------------
+
+    private validatorJs = validator;
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    /**
+     * Creates sanitizer performing sanitizations registered in the given metadata storage,
+     * by default in the storage from the container.
+     */
+    constructor(readonly metadataStorage: MetadataStorage = getFromContainer(MetadataStorage)) {
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Sanitizes properties of the given object based on decorators used in given object class.
+     * NOTE: This method completely ignores all async sanitizations.
+     */
+    sanitize<T>(object: T, options?: SanitizerOptions): T {
+        const executor = new SanitizationExecutor(this, options);
+        executor.ignoreAsyncSanitizations = true;
+        executor.execute(object);
+        return object;
+    }
+
+    /**
+     * Sanitizes properties of the given object based on decorators used in given object class,
+     * waiting for async sanitizations.
+     */
+    sanitizeAsync<T>(object: T, options?: SanitizerOptions): Promise<T> {
+        const executor = new SanitizationExecutor(this, options);
+        executor.execute(object);
+        return executor.awaitPromises().then(() => object);
+    }
+
+    /**
+     * Sanitizes the given value based on the given SanitizationMetadata object.
+     * Only strings are sanitized, other values are returned as is.
+     */
+    sanitizeValueByMetadata(value: any, metadata: SanitizationMetadata): any {
+        if (typeof value !== "string")
+            return value;
+
+        switch (metadata.type) {
+            case SanitizationTypes.BLACKLIST:
+                return this.blacklist(value, metadata.constraints[0]);
+            case SanitizationTypes.ESCAPE:
+                return this.escape(value);
+            case SanitizationTypes.LTRIM:
+                return this.ltrim(value, metadata.constraints[0]);
+            case SanitizationTypes.NORMALIZE_EMAIL:
+                return this.normalizeEmail(value, metadata.constraints[0]);
+            case SanitizationTypes.RTRIM:
+                return this.rtrim(value, metadata.constraints[0]);
+            case SanitizationTypes.STRIP_LOW:
+                return this.stripLow(value, metadata.constraints[0]);
+            case SanitizationTypes.TO_INT:
+                return this.toInt(value, metadata.constraints[0]);
+            case SanitizationTypes.TRIM:
+                return this.trim(value, metadata.constraints[0]);
+            case SanitizationTypes.WHITELIST:
+                return this.whitelist(value, metadata.constraints[0]);
+        }
+        return value;
+    }
+
+    // -------------------------------------------------------------------------
+    // Sanitization Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Removes characters that appear in the blacklist.
+     * The characters are used in a RegExp and so you will need to escape some chars, e.g. "\\[\\]".
+     */
+    blacklist(value: string, chars: string): string {
+        return this.validatorJs.blacklist(value, chars);
+    }
+
+    /**
+     * Replaces <, >, &, ', " and / with HTML entities.
+     */
+    escape(value: string): string {
+        return this.validatorJs.escape(value);
+    }
+
+    /**
+     * Trims characters (whitespace by default) from the left-side of the value.
+     */
+    ltrim(value: string, chars?: string): string {
+        return this.validatorJs.ltrim(value, chars);
+    }
+
+    /**
+     * Canonicalizes an email address. Returns false if value is not an email address.
+     */
+    normalizeEmail(value: string, options?: ValidatorJS.NormalizeEmailOptions): string|false {
+        return this.validatorJs.normalizeEmail(value, options);
+    }
+
+    /**
+     * Trims characters (whitespace by default) from the right-side of the value.
+     */
+    rtrim(value: string, chars?: string): string {
+        return this.validatorJs.rtrim(value, chars);
+    }
+
+    /**
+     * Removes characters with a numerical value < 32 and 127, mostly control characters.
+     * If keepNewLines is true, newline characters are preserved (\n and \r, hex 0xA and 0xD).
+     */
+    stripLow(value: string, keepNewLines?: boolean): string {
+        return this.validatorJs.stripLow(value, keepNewLines);
+    }
+
+    /**
+     * Converts the value to an integer, or NaN if the value can't be converted.
+     */
+    toInt(value: string, radix?: number): number {
+        return this.validatorJs.toInt(value, radix);
+    }
+
+    /**
+     * Trims characters (whitespace by default) from both sides of the value.
+     */
+    trim(value: string, chars?: string): string {
+        return this.validatorJs.trim(value, chars);
+    }
+
+    /**
+     * Removes characters that do not appear in the whitelist.
+     * The characters are used in a RegExp and so you will need to escape some chars, e.g. "\\[\\]".
+     */
+    whitelist(value: string, chars: string): string {
+        return this.validatorJs.whitelist(value, chars);
+    }
+
+}
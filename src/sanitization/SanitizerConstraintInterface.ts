@@ -0,0 +1,14 @@
+import {SanitizationArguments} from "./SanitizationArguments";
+
+/**
+ * Custom sanitizers must implement this interface to provide custom sanitization logic.
+ */
+export interface SanitizerConstraintInterface {
+
+    /**
+     * Method to be called to sanitize given value, returns sanitized value.
+     * Async sanitizers (marked with { async: true }) return a promise of sanitized value.
+     */
+    sanitize(value: any, sanitizationArguments?: SanitizationArguments): any;
+
+}
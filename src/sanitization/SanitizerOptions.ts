@@ -0,0 +1,18 @@
+/**
+ * Options passed to sanitizer during sanitization.
+ */
+export interface SanitizerOptions {
+
+    /**
+     * Groups to be used during sanitization of the object.
+     */
+    groups?: string[];
+
+    /**
+     * Defines how sync sanitize handles sanitizers, which it can't perform:
+     * "ignore" skips them silently, "warn" skips them with a console warning and "error" throws an error.
+     * By default async sanitizers are ignored, and sanitizers which are not marked as async, but return a promise, are warned about.
+     */
+    asyncMode?: "ignore" | "error" | "warn";
+
+}
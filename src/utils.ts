@@ -1,3 +1,5 @@
+import {AbortSignalLike} from "./validation/AbortSignalLike";
+
 // https://github.com/TylorS/typed-is-promise/blob/abf1514e1b6961adfc75765476b0debb96b2c3ae/src/index.ts
 
 export function isPromise<T = any>(p: any): p is Promise<T> {
@@ -13,3 +15,60 @@ export function convertToArray<T>(val: Array<T> | Set<T> | Map<any, T>): Array<T
     }
     return Array.isArray(val) ? val : Array.from(val);
 }
+
+/**
+ * Gets [key, item] entries of the collection, items of arrays and sets are keyed by their index.
+ */
+export function convertToEntries<T>(val: Array<T> | Set<T> | Map<any, T>): [any, T][] {
+    if (val instanceof Map) {
+        return Array.from(val.entries());
+    }
+    return Array.from(val as Array<T> | Set<T>).map((item, index) => [index, item] as [any, T]);
+}
+
+/**
+ * Gets value of the object's property by its path, e.g. "address.zip" or "items[0].sku".
+ */
+export function getValueByPath(object: any, path: string): any {
+    return path
+        .replace(/\[([^\]]*)\]/g, ".$1")
+        .split(".")
+        .filter(key => key !== "")
+        .reduce((value, key) => value !== null && value !== undefined ? value[key] : undefined, object);
+}
+
+/**
+ * AbortController of browsers and Node.js 15+, it's not declared by es6 lib.
+ */
+declare const AbortController: { new(): { signal: AbortSignalLike, abort(reason?: any): void } };
+
+/**
+ * Creates AbortController, or its minimal implementation if platform doesn't provide it.
+ */
+export function createAbortController(): { signal: AbortSignalLike, abort(reason?: any): void } {
+    if (typeof AbortController !== "undefined")
+        return new AbortController();
+
+    const listeners: (() => void)[] = [];
+    const signal = {
+        aborted: false,
+        reason: undefined as any,
+        addEventListener: (type: "abort", listener: () => void) => listeners.push(listener),
+        removeEventListener: (type: "abort", listener: () => void) => {
+            const index = listeners.indexOf(listener);
+            if (index !== -1)
+                listeners.splice(index, 1);
+        }
+    };
+    return {
+        signal: signal,
+        abort: (reason?: any) => {
+            if (signal.aborted)
+                return;
+
+            signal.aborted = true;
+            signal.reason = reason;
+            listeners.slice().forEach(listener => listener());
+        }
+    };
+}
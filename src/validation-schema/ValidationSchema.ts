@@ -9,6 +9,12 @@ export interface ValidationSchema {
      */
     name: string;
 
+    /**
+     * Names of the validation schemas this schema inherits validations from.
+     * Validations of the same type defined for the same property in this schema take precedence.
+     */
+    extends?: string[];
+
     /**
      * Validated properties.
      */
@@ -44,6 +50,11 @@ export interface ValidationSchema {
              */
             each?: boolean;
 
+            /**
+             * Specifies if validated value is a plain object used as a dictionary.
+             */
+            dictionary?: boolean;
+
             /**
              * Indicates if validation must be performed always, no matter of validation groups used.
              */
@@ -54,6 +65,27 @@ export interface ValidationSchema {
              */
             groups?: string[];
 
+            /**
+             * Validations of the property are performed in ascending order of their priority.
+             */
+            priority?: number;
+
+            /**
+             * Indicates if remaining validations of the property must be skipped when this validation fails.
+             */
+            bail?: boolean;
+
+            /**
+             * Indicates if "each" validation must report its failures per item.
+             */
+            itemErrors?: boolean;
+
+            /**
+             * Name of the validation schema used to validate nested objects.
+             * Used only with "nestedValidation" type.
+             */
+            nested?: string;
+
             /**
              * Specific validation type options.
              */
@@ -3,6 +3,8 @@ import {ValidationMetadata} from "../metadata/ValidationMetadata";
 import {ValidationMetadataArgs} from "../metadata/ValidationMetadataArgs";
 import {ValidationOptions} from "../decorator/ValidationOptions";
 import {ValidationTypes} from "../validation/ValidationTypes";
+import {ConstraintRegistry} from "../validation/ConstraintRegistry";
+import {getFromContainer} from "../container";
 
 /**
  * Used to transform validation schemas to validation metadatas.
@@ -15,19 +17,28 @@ export class ValidationSchemaToMetadataTransformer {
             schema.properties[property].forEach(validation => {
                 if (!ValidationTypes.isValid(validation.type))
                     throw new Error(`Validation schema ${schema.name}#${property} as incorrect type ${validation.type}`);
+
+                const definition = getFromContainer(ConstraintRegistry).get(validation.type);
+                if (definition && definition.arity !== undefined && validation.constraints && validation.constraints.length > definition.arity)
+                    console.warn(`Validation schema ${schema.name}#${property} has ${validation.constraints.length} constraints, ` +
+                        `but ${validation.type} accepts at most ${definition.arity}, the rest of them is ignored`);
                 
                 const validationOptions: ValidationOptions = {
                     message: validation.message,
                     groups: validation.groups,
                     always: validation.always,
-                    each: validation.each
+                    each: validation.each,
+                    dictionary: validation.dictionary,
+                    bail: validation.bail,
+                    itemErrors: validation.itemErrors,
+                    priority: validation.priority
                 };
                 const args: ValidationMetadataArgs = {
                     type: validation.type,
                     target: schema.name,
                     propertyName: property,
                     constraints: validation.constraints,
-                    validationTypeOptions: validation.options,
+                    validationTypeOptions: validation.nested ? Object.assign({}, validation.options, { schema: validation.nested }) : validation.options,
                     validationOptions: validationOptions
                 };
                 metadatas.push(new ValidationMetadata(args));
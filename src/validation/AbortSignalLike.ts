@@ -0,0 +1,20 @@
+/**
+ * Signal used to cancel validation, compatible with AbortSignal of browsers and Node.js.
+ */
+export interface AbortSignalLike {
+
+    /**
+     * Indicates if the signal was aborted.
+     */
+    readonly aborted: boolean;
+
+    /**
+     * Reason the signal was aborted with.
+     */
+    readonly reason?: any;
+
+    addEventListener(type: "abort", listener: () => void): void;
+
+    removeEventListener(type: "abort", listener: () => void): void;
+
+}
@@ -0,0 +1,572 @@
+import {ConstraintDefinition} from "./ConstraintDefinition";
+import {ValidationArguments} from "./ValidationArguments";
+import {ValidationTypes} from "./ValidationTypes";
+
+/**
+ * Gets definitions of the built-in constraints.
+ * Definitions are created on demand, as ValidationTypes and ConstraintRegistry depend on each other.
+ */
+export function getBuiltinConstraints(): ConstraintDefinition[] {
+    return [
+        /* common checkers */
+        {
+            name: ValidationTypes.IS_DEFINED,
+            validate: (value, args, validator) => validator.isDefined(value),
+            defaultMessage: "$property should not be null or undefined",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.EQUALS,
+            validate: (value, args, validator) => validator.equals(value, args.constraints[0]),
+            defaultMessage: "$property must be equal to $constraint1",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.NOT_EQUALS,
+            validate: (value, args, validator) => validator.notEquals(value, args.constraints[0]),
+            defaultMessage: "$property should not be equal to $constraint1",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.IS_EMPTY,
+            validate: (value, args, validator) => validator.isEmpty(value),
+            defaultMessage: "$property must be empty",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_NOT_EMPTY,
+            validate: (value, args, validator) => validator.isNotEmpty(value),
+            defaultMessage: "$property should not be empty",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_IN,
+            validate: (value, args, validator) => validator.isIn(value, args.constraints[0]),
+            defaultMessage: "$property must be one of the following values: $constraint1",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.IS_NOT_IN,
+            validate: (value, args, validator) => validator.isNotIn(value, args.constraints[0]),
+            defaultMessage: "$property should not be one of the following values: $constraint1",
+            arity: 1
+        },
+
+        /* cross-field checkers */
+        {
+            name: ValidationTypes.EQUALS_PROPERTY,
+            validate: (value, args, validator) => validator.equalsProperty(value, args.object, args.constraints[0]),
+            defaultMessage: "$property must be equal to $constraint1",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.NOT_EQUALS_PROPERTY,
+            validate: (value, args, validator) => validator.notEqualsProperty(value, args.object, args.constraints[0]),
+            defaultMessage: "$property should not be equal to $constraint1",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.GREATER_THAN_PROPERTY,
+            validate: (value, args, validator) => validator.greaterThanProperty(value, args.object, args.constraints[0]),
+            defaultMessage: "$property must be greater than $constraint1",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.GREATER_THAN_OR_EQUAL_PROPERTY,
+            validate: (value, args, validator) => validator.greaterThanOrEqualProperty(value, args.object, args.constraints[0]),
+            defaultMessage: "$property must be greater than or equal to $constraint1",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.LESS_THAN_PROPERTY,
+            validate: (value, args, validator) => validator.lessThanProperty(value, args.object, args.constraints[0]),
+            defaultMessage: "$property must be less than $constraint1",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.LESS_THAN_OR_EQUAL_PROPERTY,
+            validate: (value, args, validator) => validator.lessThanOrEqualProperty(value, args.object, args.constraints[0]),
+            defaultMessage: "$property must be less than or equal to $constraint1",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.REQUIRED_IF,
+            validate: (value, args, validator) => validator.requiredIf(value, args.object, args.constraints[0], args.constraints[1]),
+            defaultMessage: "$property should not be empty when $constraint1 is $constraint2",
+            arity: 2
+        },
+        {
+            name: ValidationTypes.REQUIRED_WITH,
+            validate: (value, args, validator) => validator.requiredWith(value, args.object, args.constraints[0]),
+            defaultMessage: "$property should not be empty when any of $constraint1 is present",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.REQUIRED_WITHOUT,
+            validate: (value, args, validator) => validator.requiredWithout(value, args.object, args.constraints[0]),
+            defaultMessage: "$property should not be empty when any of $constraint1 is not present",
+            arity: 1
+        },
+
+        /* type checkers */
+        {
+            name: ValidationTypes.IS_LATLONG,
+            validate: (value, args, validator) => validator.isLatLong(value),
+            defaultMessage: "$property must be a latitude,longitude string",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_LATITUDE,
+            validate: (value, args, validator) => validator.isLatitude(value),
+            defaultMessage: "$property must be a latitude string or number",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_LONGITUDE,
+            validate: (value, args, validator) => validator.isLongitude(value),
+            defaultMessage: "$property must be a longitude string or number",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_BOOLEAN,
+            validate: (value, args, validator) => validator.isBoolean(value),
+            defaultMessage: "$property must be a boolean value",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_DATE,
+            validate: (value, args, validator) => validator.isDate(value),
+            defaultMessage: "$property must be a Date instance",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_STRING,
+            validate: (value, args, validator) => validator.isString(value),
+            defaultMessage: "$property must be a string",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_DATE_STRING,
+            validate: (value, args, validator) => validator.isDateString(value),
+            defaultMessage: "$property must be a ISOString",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_ARRAY,
+            validate: (value, args, validator) => validator.isArray(value),
+            defaultMessage: "$property must be an array",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_NUMBER,
+            validate: (value, args, validator) => validator.isNumber(value, args.constraints[0]),
+            defaultMessage: "$property must be a number conforming to the specified constraints",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.IS_INT,
+            validate: (value, args, validator) => validator.isInt(value),
+            defaultMessage: "$property must be an integer number",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_ENUM,
+            validate: (value, args, validator) => validator.isEnum(value, args.constraints[0]),
+            defaultMessage: "$property must be a valid enum value",
+            arity: 1
+        },
+
+        /* number checkers */
+        {
+            name: ValidationTypes.IS_DIVISIBLE_BY,
+            validate: (value, args, validator) => validator.isDivisibleBy(value, args.constraints[0]),
+            defaultMessage: "$property must be divisible by $constraint1",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.IS_POSITIVE,
+            validate: (value, args, validator) => validator.isPositive(value),
+            defaultMessage: "$property must be a positive number",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_NEGATIVE,
+            validate: (value, args, validator) => validator.isNegative(value),
+            defaultMessage: "$property must be a negative number",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.MIN,
+            validate: (value, args, validator) => validator.min(value, args.constraints[0]),
+            defaultMessage: "$property must not be less than $constraint1",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.MAX,
+            validate: (value, args, validator) => validator.max(value, args.constraints[0]),
+            defaultMessage: "$property must not be greater than $constraint1",
+            arity: 1
+        },
+
+        /* date checkers */
+        {
+            name: ValidationTypes.MIN_DATE,
+            validate: (value, args, validator) => validator.minDate(value, args.constraints[0]),
+            defaultMessage: "minimal allowed date for $property is $constraint1",
+            eachDefaultMessage: "minimal allowed date for each value in $property is $constraint1",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.MAX_DATE,
+            validate: (value, args, validator) => validator.maxDate(value, args.constraints[0]),
+            defaultMessage: "maximal allowed date for $property is $constraint1",
+            eachDefaultMessage: "maximal allowed date for each value in $property is $constraint1",
+            arity: 1
+        },
+
+        /* string-as-type checkers */
+        {
+            name: ValidationTypes.IS_BOOLEAN_STRING,
+            validate: (value, args, validator) => validator.isBooleanString(value),
+            defaultMessage: "$property must be a boolean string",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_NUMBER_STRING,
+            validate: (value, args, validator) => validator.isNumberString(value, args.constraints[0]),
+            defaultMessage: "$property must be a number string",
+            arity: 1
+        },
+
+        /* string checkers */
+        {
+            name: ValidationTypes.CONTAINS,
+            validate: (value, args, validator) => validator.contains(value, args.constraints[0]),
+            defaultMessage: "$property must contain a $constraint1 string",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.NOT_CONTAINS,
+            validate: (value, args, validator) => validator.notContains(value, args.constraints[0]),
+            defaultMessage: "$property should not contain a $constraint1 string",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.IS_ALPHA,
+            validate: (value, args, validator) => validator.isAlpha(value, args.constraints[0]),
+            defaultMessage: "$property must contain only letters (a-zA-Z)",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.IS_ALPHANUMERIC,
+            validate: (value, args, validator) => validator.isAlphanumeric(value, args.constraints[0]),
+            defaultMessage: "$property must contain only letters and numbers",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.IS_DECIMAL,
+            validate: (value, args, validator) => validator.isDecimal(value, args.constraints[0]),
+            defaultMessage: "$property is not a valid decimal number.",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.IS_ASCII,
+            validate: (value, args, validator) => validator.isAscii(value),
+            defaultMessage: "$property must contain only ASCII characters",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_BASE64,
+            validate: (value, args, validator) => validator.isBase64(value),
+            defaultMessage: "$property must be base64 encoded",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_BYTE_LENGTH,
+            validate: (value, args, validator) => validator.isByteLength(value, args.constraints[0], args.constraints[1]),
+            defaultMessage: "$property's byte length must fall into ($constraint1, $constraint2) range",
+            arity: 2
+        },
+        {
+            name: ValidationTypes.IS_CREDIT_CARD,
+            validate: (value, args, validator) => validator.isCreditCard(value),
+            defaultMessage: "$property must be a credit card",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_CURRENCY,
+            validate: (value, args, validator) => validator.isCurrency(value, args.constraints[0]),
+            defaultMessage: "$property must be a currency",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.IS_EMAIL,
+            validate: (value, args, validator) => validator.isEmail(value, args.constraints[0]),
+            defaultMessage: "$property must be an email",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.IS_FQDN,
+            validate: (value, args, validator) => validator.isFQDN(value, args.constraints[0]),
+            defaultMessage: "$property must be a valid domain name",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.IS_FULL_WIDTH,
+            validate: (value, args, validator) => validator.isFullWidth(value),
+            defaultMessage: "$property must contain a full-width characters",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_HALF_WIDTH,
+            validate: (value, args, validator) => validator.isHalfWidth(value),
+            defaultMessage: "$property must contain a half-width characters",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_VARIABLE_WIDTH,
+            validate: (value, args, validator) => validator.isVariableWidth(value),
+            defaultMessage: "$property must contain a full-width and half-width characters",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_HEX_COLOR,
+            validate: (value, args, validator) => validator.isHexColor(value),
+            defaultMessage: "$property must be a hexadecimal color",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_HEXADECIMAL,
+            validate: (value, args, validator) => validator.isHexadecimal(value),
+            defaultMessage: "$property must be a hexadecimal number",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_MAC_ADDRESS,
+            validate: (value, args, validator) => validator.isMACAddress(value),
+            defaultMessage: "$property must be a MAC Address",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_IP,
+            validate: (value, args, validator) => validator.isIP(value, args.constraints[0]),
+            defaultMessage: "$property must be an ip address",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.IS_PORT,
+            validate: (value, args, validator) => validator.isPort(value),
+            defaultMessage: "$property must be a port",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_ISBN,
+            validate: (value, args, validator) => validator.isISBN(value, args.constraints[0]),
+            defaultMessage: "$property must be an ISBN",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.IS_ISIN,
+            validate: (value, args, validator) => validator.isISIN(value),
+            defaultMessage: "$property must be an ISIN (stock/security identifier)",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_ISO8601,
+            validate: (value, args, validator) => validator.isISO8601(value, args.constraints[0]),
+            defaultMessage: "$property must be a valid ISO 8601 date string",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.IS_JSON,
+            validate: (value, args, validator) => validator.isJSON(value),
+            defaultMessage: "$property must be a json string",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_JWT,
+            validate: (value, args, validator) => validator.isJWT(value),
+            defaultMessage: "$property must be a jwt string",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_OBJECT,
+            validate: (value, args, validator) => validator.isObject(value),
+            defaultMessage: "$property must be an object",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_NOT_EMPTY_OBJECT,
+            validate: (value, args, validator) => validator.isNotEmptyObject(value),
+            defaultMessage: "$property must be a non-empty object",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_LOWERCASE,
+            validate: (value, args, validator) => validator.isLowercase(value),
+            defaultMessage: "$property must be a lowercase string",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_MOBILE_PHONE,
+            validate: (value, args, validator) => validator.isMobilePhone(value, args.constraints[0]),
+            defaultMessage: "$property must be a phone number",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.IS_PHONE_NUMBER,
+            validate: (value, args, validator) => validator.isPhoneNumber(value, args.constraints[0]),
+            defaultMessage: "$property must be a valid phone number",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.IS_ISO31661_ALPHA_2,
+            validate: (value, args, validator) => validator.isISO31661Alpha2(value),
+            defaultMessage: "$property must be a valid ISO31661 Alpha2 code",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_ISO31661_ALPHA_3,
+            validate: (value, args, validator) => validator.isISO31661Alpha3(value),
+            defaultMessage: "$property must be a valid ISO31661 Alpha3 code",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_MONGO_ID,
+            validate: (value, args, validator) => validator.isMongoId(value),
+            defaultMessage: "$property must be a mongodb id",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_MULTIBYTE,
+            validate: (value, args, validator) => validator.isMultibyte(value),
+            defaultMessage: "$property must contain one or more multibyte chars",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_SURROGATE_PAIR,
+            validate: (value, args, validator) => validator.isSurrogatePair(value),
+            defaultMessage: "$property must contain any surrogate pairs chars",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_URL,
+            validate: (value, args, validator) => validator.isURL(value, args.constraints[0]),
+            defaultMessage: "$property must be an URL address",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.IS_UUID,
+            validate: (value, args, validator) => validator.isUUID(value, args.constraints[0]),
+            defaultMessage: "$property must be an UUID",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.IS_UPPERCASE,
+            validate: (value, args, validator) => validator.isUppercase(value),
+            defaultMessage: "$property must be uppercase",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.LENGTH,
+            validate: (value, args, validator) => validator.length(value, args.constraints[0], args.constraints[1]),
+            defaultMessage: (args: ValidationArguments) => {
+                const isMinLength = args.constraints[0] !== null && args.constraints[0] !== undefined;
+                const isMaxLength = args.constraints[1] !== null && args.constraints[1] !== undefined;
+                if (isMinLength && (!args.value || args.value.length < args.constraints[0])) {
+                    return "$property must be longer than or equal to $constraint1 characters";
+                } else if (isMaxLength && (args.value.length > args.constraints[1])) {
+                    return "$property must be shorter than or equal to $constraint2 characters";
+                }
+                return "$property must be longer than or equal to $constraint1 and shorter than or equal to $constraint2 characters";
+            },
+            arity: 2
+        },
+        {
+            name: ValidationTypes.MIN_LENGTH,
+            validate: (value, args, validator) => validator.minLength(value, args.constraints[0]),
+            defaultMessage: "$property must be longer than or equal to $constraint1 characters",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.MAX_LENGTH,
+            validate: (value, args, validator) => validator.maxLength(value, args.constraints[0]),
+            defaultMessage: "$property must be shorter than or equal to $constraint1 characters",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.MATCHES,
+            validate: (value, args, validator) => validator.matches(value, args.constraints[0], args.constraints[1]),
+            defaultMessage: "$property must match $constraint1 regular expression",
+            arity: 2
+        },
+        {
+            name: ValidationTypes.IS_MILITARY_TIME,
+            validate: (value, args, validator) => validator.isMilitaryTime(value),
+            defaultMessage: "$property must be a valid representation of military time in the format HH:MM",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_HASH,
+            validate: (value, args, validator) => validator.isHash(value, args.constraints[0]),
+            defaultMessage: "$property must be a hash of type $constraint1",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.IS_ISSN,
+            validate: (value, args, validator) => validator.isISSN(value, args.constraints[0]),
+            defaultMessage: "$property must be a ISSN",
+            arity: 1
+        },
+
+        /* array checkers */
+        {
+            name: ValidationTypes.ARRAY_CONTAINS,
+            validate: (value, args, validator) => validator.arrayContains(value, args.constraints[0]),
+            defaultMessage: "$property must contain $constraint1 values",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.ARRAY_NOT_CONTAINS,
+            validate: (value, args, validator) => validator.arrayNotContains(value, args.constraints[0]),
+            defaultMessage: "$property should not contain $constraint1 values",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.ARRAY_NOT_EMPTY,
+            validate: (value, args, validator) => validator.arrayNotEmpty(value),
+            defaultMessage: "$property should not be empty",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.ARRAY_MIN_SIZE,
+            validate: (value, args, validator) => validator.arrayMinSize(value, args.constraints[0]),
+            defaultMessage: "$property must contain at least $constraint1 elements",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.ARRAY_MAX_SIZE,
+            validate: (value, args, validator) => validator.arrayMaxSize(value, args.constraints[0]),
+            defaultMessage: "$property must contain not more than $constraint1 elements",
+            arity: 1
+        },
+        {
+            name: ValidationTypes.ARRAY_UNIQUE,
+            validate: (value, args, validator) => validator.arrayUnique(value),
+            defaultMessage: "All $property's elements must be unique",
+            arity: 0
+        },
+        {
+            name: ValidationTypes.IS_INSTANCE,
+            validate: (value, args, validator) => validator.isInstance(value, args.constraints[0]),
+            defaultMessage: (args: ValidationArguments) => {
+                if (args.constraints[0]) {
+                    return `$property must be an instance of ${args.constraints[0].name}`;
+                } else {
+                    return `${ValidationTypes.IS_INSTANCE} decorator expects and object as value, but got falsy value.`;
+                }
+            },
+            arity: 1
+        }
+    ];
+}
@@ -0,0 +1,38 @@
+import {ValidationArguments} from "./ValidationArguments";
+
+/**
+ * Violation of the class-level constraint.
+ */
+export interface ClassValidationViolation {
+
+    /**
+     * Property the violation is attributed to, e.g. "iban" or "address.zip".
+     * If not set then violation is attributed to the validated object itself.
+     */
+    property?: string;
+
+    /**
+     * Error message of the violation. If not set then message of the decorator or default message of the constraint is used.
+     */
+    message?: string;
+
+}
+
+/**
+ * Class-level validators must implement this interface to validate the whole object.
+ */
+export interface ClassValidatorConstraintInterface {
+
+    /**
+     * Method to be called to perform validation over the given object.
+     * Returns true if object is valid, false if the object itself is invalid,
+     * or the list of violations attributed to its properties (empty list means object is valid).
+     */
+    validate(object: any, validationArguments?: ValidationArguments): boolean|ClassValidationViolation[]|Promise<boolean|ClassValidationViolation[]>;
+
+    /**
+     * Gets default message when validation for this constraint fail.
+     */
+    defaultMessage?(validationArguments?: ValidationArguments): string;
+
+}
@@ -0,0 +1,68 @@
+import {ValidationError} from "./ValidationError";
+import {ValidationMetadata} from "../metadata/ValidationMetadata";
+import {PropertyValidationPlan} from "./ValidationPlan";
+
+/**
+ * Part of the validation executor the compiled validators are executed with.
+ * Validations which aren't specialised by the compiler are delegated to it, so they produce the same errors
+ * as the interpreted validation. Generated code uses only these members.
+ */
+export interface CompiledExecutionContext {
+
+    /**
+     * Request-scoped data given in the "context" option of the validator.
+     */
+    readonly context: any;
+
+    /**
+     * Validates the property the same way as the interpreted validation does, including its conversions,
+     * and adds its error to the given errors.
+     */
+    validateProperty(object: Object,
+                     propertyName: string,
+                     propertyPlan: PropertyValidationPlan,
+                     validationErrors: ValidationError[],
+                     parentPath: string,
+                     parentPointer: string): void;
+
+    /**
+     * Creates error of the property, without any failed constraints yet.
+     */
+    createPropertyError(object: Object, value: any, propertyName: string, path: string, pointer: string): ValidationError;
+
+    /**
+     * Adds failure of the given built-in constraint to the error of the property.
+     */
+    addFailure(error: ValidationError, object: Object, value: any, metadata: ValidationMetadata): void;
+
+    /**
+     * Counts failures of the property, including failures of its items.
+     */
+    countFailures(error: ValidationError): number;
+
+    /**
+     * Copies contexts of the given metadatas to the error of the property, for the constraints which failed.
+     */
+    mapContexts(object: Object, value: any, metadatas: ValidationMetadata[], error: ValidationError): void;
+
+    /**
+     * Performs the built-in or registered constraints of the given metadatas, which aren't called by the compiled code directly.
+     */
+    validateDefault(object: Object, value: any, metadatas: ValidationMetadata[], error: ValidationError): void;
+
+    /**
+     * Performs the custom constraints of the given metadatas.
+     */
+    validateCustom(object: Object, value: any, metadatas: ValidationMetadata[], error: ValidationError): void;
+
+    /**
+     * Validates objects nested in the given value, adding their errors to the children of the property error.
+     */
+    validateNested(value: any, metadatas: ValidationMetadata[], error: ValidationError): void;
+
+    /**
+     * Validates keys of the map or of the dictionary object.
+     */
+    validateKeys(object: Object, value: any, metadata: ValidationMetadata, error: ValidationError): void;
+
+}
@@ -0,0 +1,40 @@
+import {ValidationArguments} from "./ValidationArguments";
+import {Validator} from "./Validator";
+
+/**
+ * Definition of the constraint registered in the ConstraintRegistry, e.g. built-in "isEmail" constraint.
+ */
+export interface ConstraintDefinition {
+
+    /**
+     * Name of the constraint. It's used as validation type and as key of the failed constraint in ValidationError.constraints.
+     */
+    name: string;
+
+    /**
+     * Checks if the given value is valid. Constraints of the validation (e.g. [8] for @MinLength(8)) are passed in
+     * args.constraints, validator can be used to reuse its checks. Only async constraints can return a promise.
+     */
+    validate(value: any, args: ValidationArguments, validator: Validator): boolean | Promise<boolean>;
+
+    /**
+     * Default error message. Message of the "each" validation is prefixed with "each value in ".
+     */
+    defaultMessage?: string | ((args: ValidationArguments) => string);
+
+    /**
+     * Default error message of the "each" validation, used instead of the prefixed default message.
+     */
+    eachDefaultMessage?: string | ((args: ValidationArguments) => string);
+
+    /**
+     * Maximal number of constraints the check accepts, e.g. 2 for "length" (min and max length).
+     */
+    arity?: number;
+
+    /**
+     * Indicates if the check returns a promise. Async constraints are skipped by the sync validation.
+     */
+    async?: boolean;
+
+}
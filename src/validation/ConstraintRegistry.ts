@@ -0,0 +1,92 @@
+import {ConstraintDefinition} from "./ConstraintDefinition";
+import {ValidationArguments} from "./ValidationArguments";
+import {getBuiltinConstraints} from "./BuiltinConstraints";
+
+/**
+ * Registry of the constraints performed by the Validator, including the built-in ones.
+ * Constraints can be added or overridden at runtime, e.g. to use a stricter "isEmail" check.
+ */
+export class ConstraintRegistry {
+
+    // -------------------------------------------------------------------------
+    // Private Properties
+    // -------------------------------------------------------------------------
+
+    private definitions = new Map<string, ConstraintDefinition>();
+    private builtinDefinitions = getBuiltinConstraints();
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor() {
+        this.builtinDefinitions.forEach(definition => this.register(definition));
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Registers the given constraint. Constraint registered with the same name, including the built-in one, is replaced.
+     */
+    register(definition: ConstraintDefinition): void {
+        this.definitions.set(definition.name, definition);
+    }
+
+    /**
+     * Overrides the given parts of the registered constraint, e.g. only its check or only its default message.
+     */
+    override(name: string, definition: Partial<ConstraintDefinition>): void {
+        const registeredDefinition = this.definitions.get(name);
+        if (!registeredDefinition)
+            throw new Error(`Constraint "${name}" is not registered, so it can't be overridden.`);
+
+        this.definitions.set(name, Object.assign({}, registeredDefinition, definition, { name: name }));
+    }
+
+    /**
+     * Checks if constraint with the given name is registered.
+     */
+    has(name: string): boolean {
+        return this.definitions.has(name);
+    }
+
+    /**
+     * Checks if the built-in constraint is registered with the given name, i.e. it's not replaced or overridden.
+     */
+    isBuiltin(name: string): boolean {
+        return this.builtinDefinitions.indexOf(this.definitions.get(name)) !== -1;
+    }
+
+    /**
+     * Gets constraint registered with the given name.
+     */
+    get(name: string): ConstraintDefinition {
+        return this.definitions.get(name);
+    }
+
+    /**
+     * Gets names of all registered constraints.
+     */
+    getNames(): string[] {
+        return Array.from(this.definitions.keys());
+    }
+
+    /**
+     * Gets default message of the given constraint, or undefined if the constraint has no default message.
+     */
+    getMessage(name: string, isEach: boolean): string | ((args: ValidationArguments) => string) {
+        const definition = this.definitions.get(name);
+        if (!definition || !definition.defaultMessage)
+            return undefined;
+        if (!isEach)
+            return definition.defaultMessage;
+        if (definition.eachDefaultMessage)
+            return definition.eachDefaultMessage;
+
+        const message = definition.defaultMessage;
+        return message instanceof Function ? (args: ValidationArguments) => "each value in " + message(args) : "each value in " + message;
+    }
+
+}
@@ -1,3 +1,5 @@
+import {AbortSignalLike} from "./AbortSignalLike";
+
 /**
  * Arguments being sent to message builders - user can create message either by simply returning a string,
  * either by returning a function that accepts MessageArguments and returns a message string built based on these arguments.
@@ -28,5 +30,16 @@ export interface ValidationArguments {
      * Name of the object's property being validated.
      */
     property: string;
-    
+
+    /**
+     * Signal aborted when validation is cancelled or constraint times out, can be passed to the cancellable operations.
+     * Set only for custom constraints validated with "signal" or "asyncTimeout" option.
+     */
+    signal?: AbortSignalLike;
+
+    /**
+     * Request-scoped data given in the "context" validator option.
+     */
+    context?: any;
+
 }
\ No newline at end of file
@@ -1,3 +1,5 @@
+import {ValidationIssue} from "./ValidationIssue";
+
 /**
  * Validation error description.
  */
@@ -15,6 +17,16 @@ export class ValidationError {
      */
     property: string;
 
+    /**
+     * Path to the property from the validated object, e.g. "orders[3].items[0].sku".
+     */
+    path: string;
+
+    /**
+     * JSON Pointer (RFC 6901) to the property from the validated object, e.g. "/orders/3/items/0/sku".
+     */
+    pointer: string;
+
     /**
      * Value that haven't pass a validation.
      *
@@ -29,6 +41,11 @@ export class ValidationError {
         [type: string]: string
     };
 
+    /**
+     * Failed constraints in a structured form, contains the same constraints as the "constraints" property.
+     */
+    issues?: ValidationIssue[];
+
     /**
      * Contains all nested validation errors of the property.
      */
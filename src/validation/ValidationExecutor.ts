@@ -8,7 +8,18 @@ import {ValidationTypes} from "./ValidationTypes";
 import {ConstraintMetadata} from "../metadata/ConstraintMetadata";
 import {ValidationArguments} from "./ValidationArguments";
 import {ValidationUtils} from "./ValidationUtils";
-import {isPromise, convertToArray} from "../utils";
+import {isPromise, convertToEntries, getValueByPath, createAbortController} from "../utils";
+import {NestedValidationTypeOptions} from "./ValidationTypeOptions";
+import {ValidationIssue} from "./ValidationIssue";
+import {MessageCatalogStorage} from "../message-catalog/MessageCatalogStorage";
+import {ClassValidatorConstraintInterface, ClassValidationViolation} from "./ClassValidatorConstraintInterface";
+import {ValueConverter} from "./ValueConverter";
+import {AbortSignalLike} from "./AbortSignalLike";
+import {ConstraintRegistry} from "./ConstraintRegistry";
+import {ConstraintDefinition} from "./ConstraintDefinition";
+import {PropertyValidationPlan, ValidationPlan} from "./ValidationPlan";
+import {ValidatorCompiler} from "./ValidatorCompiler";
+import {CompiledExecutionContext} from "./CompiledExecutionContext";
 
 /**
  * Executes validation over given object.
@@ -22,11 +33,40 @@ export class ValidationExecutor {
     awaitingPromises: Promise<any>[] = [];
     ignoreAsyncValidations: boolean = false;
 
+    /**
+     * Compiler of the validators the objects are validated with instead of interpreting their metadatas, if any.
+     */
+    compiler: ValidatorCompiler;
+
     // -------------------------------------------------------------------------
     // Private Properties
     // -------------------------------------------------------------------------
 
-    private metadataStorage = getFromContainer(MetadataStorage);
+    private metadataStorage = this.validator.metadataStorage;
+    private messageCatalogStorage = getFromContainer(MessageCatalogStorage);
+    private constraintRegistry = getFromContainer(ConstraintRegistry);
+    private valueConverter = new ValueConverter();
+
+    /**
+     * Classes the objects are validated with, plain objects are validated with classes other than their constructors.
+     */
+    private targetConstructors = new Map<Object, Function>();
+
+    /**
+     * Errors of the collection items reported by "each" validations, grouped by the errors of collections.
+     */
+    private itemErrors = new Map<ValidationError, ValidationError[]>();
+
+    /**
+     * Number of the performed async constraints and queue of the constraints waiting for them to finish.
+     */
+    private runningAsyncValidationsCount = 0;
+    private asyncValidationsQueue: (() => void)[] = [];
+
+    /**
+     * Members of the executor the compiled validators are executed with, created once they are needed.
+     */
+    private compiledExecutionContext: CompiledExecutionContext;
 
     // -------------------------------------------------------------------------
     // Constructor
@@ -40,22 +80,34 @@ export class ValidationExecutor {
     // Public Methods
     // -------------------------------------------------------------------------
 
-    execute(object: Object, targetSchema: string, validationErrors: ValidationError[]) {
+    execute(object: Object,
+            targetSchema: string,
+            validationErrors: ValidationError[],
+            parentPath: string = "",
+            parentPointer: string = "",
+            targetConstructor: Function = object.constructor) {
         /**
-         * If there is no metadata registered it means possibly the dependencies are not flatterned and
-         * more than one instance is used.
-         *
-         * TODO: This needs proper handling, forcing to use the same container or some other proper solution.
+         * If there is no metadata registered in the default storage it means possibly the dependencies are not flatterned and
+         * more than one instance is used. Validators created with their own storage don't depend on it.
          */
-        if (!this.metadataStorage.hasValidationMetaData) {
+        if (!this.metadataStorage.hasValidationMetaData && this.metadataStorage === getFromContainer(MetadataStorage)) {
             console.warn(`No metadata found. There is more than once class-validator version installed probably. You need to flatten your dependencies.`);
         }
 
+        if (object instanceof Object)
+            this.targetConstructors.set(object, targetConstructor);
+
+        const compiledExecution = this.compiler && !targetSchema ? this.compiler.getExecution(targetConstructor) : undefined;
+        if (compiledExecution)
+            return compiledExecution(this.getCompiledExecutionContext(), object, validationErrors, parentPath, parentPointer);
+
         const groups = this.validatorOptions ? this.validatorOptions.groups : undefined;
-        const targetMetadatas = this.metadataStorage.getTargetValidationMetadatas(object.constructor, targetSchema, groups);
-        const groupedMetadatas = this.metadataStorage.groupByPropertyName(targetMetadatas);
+        const plan = this.metadataStorage.getValidationPlan(targetConstructor, targetSchema, groups);
+        const propertyPlans = this.validatorOptions && this.validatorOptions.properties
+            ? this.filterRequestedProperties(plan.properties, parentPath)
+            : plan.properties;
 
-        if (this.validatorOptions && this.validatorOptions.forbidUnknownValues && !targetMetadatas.length) {
+        if (this.validatorOptions && this.validatorOptions.forbidUnknownValues && !plan.metadatas.length) {
             const validationError = new ValidationError();
 
             if (!this.validatorOptions ||
@@ -66,8 +118,17 @@ export class ValidationExecutor {
 
             validationError.value = undefined;
             validationError.property = undefined;
+            validationError.path = parentPath;
+            validationError.pointer = parentPointer;
             validationError.children = [];
-            validationError.constraints = { unknownValue: "an unknown value was passed to the validate function" };
+            validationError.constraints = {};
+            validationError.issues = [];
+            this.addIssue(validationError, {
+                code: "unknownValue",
+                message: "an unknown value was passed to the validate function",
+                constraints: [],
+                path: parentPath
+            });
 
             validationErrors.push(validationError);
 
@@ -75,33 +136,56 @@ export class ValidationExecutor {
         }
 
         if (this.validatorOptions && this.validatorOptions.whitelist)
-            this.whitelist(object, groupedMetadatas, validationErrors);
+            this.whitelist(object, propertyPlans, validationErrors, parentPath, parentPointer);
 
         // General validation
-        Object.keys(groupedMetadatas).forEach(propertyName => {
-            const value = (object as any)[propertyName];
-            const definedMetadatas = groupedMetadatas[propertyName].filter(metadata => metadata.type === ValidationTypes.IS_DEFINED);
-            const metadatas = groupedMetadatas[propertyName].filter(
-              metadata => metadata.type !== ValidationTypes.IS_DEFINED && metadata.type !== ValidationTypes.WHITELIST);
-
-            if (value instanceof Promise && metadatas.find(metadata => metadata.type === ValidationTypes.PROMISE_VALIDATION)) {
-                this.awaitingPromises.push(value.then((resolvedValue) => {
-                    this.performValidations(object, resolvedValue, propertyName, definedMetadatas, metadatas, validationErrors);
-                }));
-            } else {
-                this.performValidations(object, value, propertyName, definedMetadatas, metadatas, validationErrors);
-            }
+        const stopAtFirstInvalidProperty = !!this.validatorOptions && this.validatorOptions.stopAtFirstInvalidProperty === true;
+        const propertyValidations = Object.keys(propertyPlans).map(propertyName => ({
+            bail: stopAtFirstInvalidProperty,
+            run: () => this.executeProperty(object, propertyName, propertyPlans[propertyName], validationErrors, parentPath, parentPointer)
+        }));
+        const classValidations = plan.classMetadatas.map(metadata => ({
+            bail: stopAtFirstInvalidProperty,
+            run: () => this.classValidations(object, metadata, validationErrors, parentPath, parentPointer)
+        }));
+        this.runSequentially(propertyValidations.concat(classValidations), () => validationErrors.filter(error => this.hasErrors(error)).length);
+    }
+
+    /**
+     * Waits for all async validations, including ones started after the previous async validations were finished.
+     * Rejects with the abort reason if validation is cancelled by the signal.
+     */
+    awaitPromises(): Promise<void> {
+        const signal = this.getSignal();
+        if (!signal)
+            return this.awaitAllPromises();
+
+        let onAbort: () => void;
+        const abortion = new Promise<void>((resolve, reject) => {
+            onAbort = () => reject(this.getAbortReason(signal));
+            if (signal.aborted)
+                onAbort();
+            else
+                signal.addEventListener("abort", onAbort);
         });
+        return Promise.race([this.awaitAllPromises(), abortion]).then(
+            () => signal.removeEventListener("abort", onAbort),
+            error => {
+                signal.removeEventListener("abort", onAbort);
+                throw error;
+            });
     }
 
     whitelist(object: any,
-              groupedMetadatas: { [propertyName: string]: ValidationMetadata[] },
-              validationErrors: ValidationError[]) {
+              propertyPlans: { [propertyName: string]: PropertyValidationPlan },
+              validationErrors: ValidationError[],
+              parentPath: string = "",
+              parentPointer: string = "") {
         let notAllowedProperties: string[] = [];
 
         Object.keys(object).forEach(propertyName => {
             // does this property have no metadata?
-            if (!groupedMetadatas[propertyName] || groupedMetadatas[propertyName].length === 0)
+            if (!propertyPlans[propertyName] || propertyPlans[propertyName].metadatas.length === 0)
                 notAllowedProperties.push(propertyName);
         });
 
@@ -111,8 +195,17 @@ export class ValidationExecutor {
 
                 // throw errors
                 notAllowedProperties.forEach(property => {
-                    const validationError: ValidationError = this.generateValidationError(object, (object as any)[property], property);
-                    validationError.constraints = { [ValidationTypes.WHITELIST]: `property ${property} should not exist` };
+                    const validationError: ValidationError = this.generateValidationError(object, (object as any)[property], property,
+                        ValidationUtils.appendPath(parentPath, property), ValidationUtils.appendPointer(parentPointer, property));
+                    const issue: ValidationIssue = {
+                        code: ValidationTypes.WHITELIST,
+                        message: `property ${property} should not exist`,
+                        constraints: [],
+                        path: validationError.path
+                    };
+                    if (this.isValueExposed())
+                        issue.value = (object as any)[property];
+                    this.addIssue(validationError, issue);
                     validationError.children = undefined;
                     validationErrors.push(validationError);
                 });
@@ -137,6 +230,7 @@ export class ValidationExecutor {
                     return false;
                 } else {
                     delete error.constraints;
+                    delete error.issues;
                 }
             }
 
@@ -148,28 +242,91 @@ export class ValidationExecutor {
     // Private Methods
     // -------------------------------------------------------------------------
 
-    private performValidations (object: any,
-                                value: any, propertyName: string,
-                                definedMetadatas: ValidationMetadata[],
-                                metadatas: ValidationMetadata[],
-                                validationErrors: ValidationError[]) {
+    /**
+     * Exposes the validations the compiled validators delegate to the executor.
+     */
+    private getCompiledExecutionContext(): CompiledExecutionContext {
+        if (!this.compiledExecutionContext) {
+            this.compiledExecutionContext = {
+                context: this.getContext(),
+                validateProperty: (object, propertyName, propertyPlan, validationErrors, parentPath, parentPointer) =>
+                    this.executeProperty(object, propertyName, propertyPlan, validationErrors, parentPath, parentPointer),
+                createPropertyError: (object, value, propertyName, path, pointer) =>
+                    this.generateValidationError(object, value, propertyName, path, pointer),
+                addFailure: (error, object, value, metadata) => this.createValidationError(error, object, value, metadata),
+                countFailures: error => this.countFailures(error),
+                mapContexts: (object, value, metadatas, error) => this.mapContexts(object, value, metadatas, error),
+                validateDefault: (object, value, metadatas, error) => this.defaultValidations(object, value, metadatas, error),
+                validateCustom: (object, value, metadatas, error) => this.customValidations(object, value, metadatas, error),
+                validateNested: (value, metadatas, error) => this.nestedValidations(value, metadatas, error),
+                validateKeys: (object, value, metadata, error) => this.keysValidations(object, value, metadata, error)
+            };
+        }
+        return this.compiledExecutionContext;
+    }
 
-        const customValidationMetadatas = metadatas.filter(metadata => metadata.type === ValidationTypes.CUSTOM_VALIDATION);
-        const nestedValidationMetadatas = metadatas.filter(metadata => metadata.type === ValidationTypes.NESTED_VALIDATION);
-        const conditionalValidationMetadatas = metadatas.filter(metadata => metadata.type === ValidationTypes.CONDITIONAL_VALIDATION);
+    /**
+     * Converts and validates the given property of the object.
+     * Validators generated by the ValidatorCompiler use it for the properties they don't specialise.
+     */
+    private executeProperty(object: any,
+                            propertyName: string,
+                            propertyPlan: PropertyValidationPlan,
+                            validationErrors: ValidationError[],
+                            parentPath: string,
+                            parentPointer: string) {
+        const failedConversions = this.performConversions(object, propertyName, propertyPlan);
+        const value = object[propertyName];
+
+        if (value instanceof Promise && propertyPlan.hasPromiseValidation) {
+            this.awaitingPromises.push(value.then((resolvedValue) => {
+                return this.collectPromises(() => {
+                    this.performValidations(object, resolvedValue, propertyName, propertyPlan, validationErrors, parentPath, parentPointer);
+                });
+            }));
+        } else {
+            this.performValidations(object, value, propertyName, propertyPlan, validationErrors, parentPath, parentPointer, failedConversions);
+        }
+    }
 
-        const validationError = this.generateValidationError(object, value, propertyName);
+    private performValidations (object: any,
+                                value: any, propertyName: string,
+                                propertyPlan: PropertyValidationPlan,
+                                validationErrors: ValidationError[],
+                                parentPath: string,
+                                parentPointer: string,
+                                failedConversions: ValidationMetadata[] = []) {
+
+        const definedMetadatas = propertyPlan.definedMetadatas;
+        const validationError = this.generateValidationError(object, value, propertyName,
+            ValidationUtils.appendPath(parentPath, propertyName), ValidationUtils.appendPointer(parentPointer, propertyName));
         validationErrors.push(validationError);
 
-        const canValidate = this.conditionalValidations(object, value, conditionalValidationMetadatas);
+        const canValidate = this.conditionalValidations(object, value, propertyPlan.conditionalMetadatas);
         if (!canValidate) {
             return;
         }
 
-        // handle IS_DEFINED validation type the special way - it should work no matter skipUndefinedProperties/skipMissingProperties is set or not
-        this.defaultValidations(object, value, definedMetadatas, validationError.constraints);
+        // value which failed conversion is not validated, as other validations would fail on it as well
+        if (failedConversions.length > 0) {
+            failedConversions.forEach(metadata => this.createValidationError(validationError, object, value, metadata));
+            return;
+        }
+
+        // handle IS_DEFINED and REQUIRED_* validation types the special way - they should work no matter skipUndefinedProperties/skipMissingProperties is set or not
+        this.defaultValidations(object, value, definedMetadatas, validationError);
         this.mapContexts(object, value, definedMetadatas, validationError);
 
+        if (definedMetadatas.some(metadata => this.shouldBail(metadata)) && Object.keys(validationError.constraints).length > 0) {
+            return;
+        }
+
+        // missing value is allowed if it's not required by the REQUIRED_* validations
+        const conditionallyRequired = definedMetadatas.some(metadata => metadata.type !== ValidationTypes.IS_DEFINED);
+        if (conditionallyRequired && (value === null || value === undefined) && Object.keys(validationError.constraints).length === 0) {
+            return;
+        }
+
         if (value === undefined && this.validatorOptions && this.validatorOptions.skipUndefinedProperties === true) {
             return;
         }
@@ -182,15 +339,84 @@ export class ValidationExecutor {
             return;
         }
 
-        this.defaultValidations(object, value, metadatas, validationError.constraints);
-        this.customValidations(object, value, customValidationMetadatas, validationError.constraints);
-        this.nestedValidations(value, nestedValidationMetadatas, validationError.children);
+        const validations = propertyPlan.validationMetadatas.map(metadata => ({
+            bail: this.shouldBail(metadata),
+            run: () => {
+                if (metadata.type === ValidationTypes.CUSTOM_VALIDATION) {
+                    this.customValidations(object, value, [metadata], validationError);
+                } else if (metadata.type === ValidationTypes.NESTED_VALIDATION) {
+                    this.nestedValidations(value, [metadata], validationError);
+                } else if (metadata.type === ValidationTypes.KEYS_VALIDATION) {
+                    this.keysValidations(object, value, metadata, validationError);
+                } else {
+                    this.defaultValidations(object, value, [metadata], validationError);
+                }
+            }
+        }));
+        this.runSequentially(validations, () => this.countFailures(validationError));
 
-        this.mapContexts(object, value, metadatas, validationError);
-        this.mapContexts(object, value, customValidationMetadatas, validationError);
+        this.mapContexts(object, value, propertyPlan.validationMetadatas, validationError);
+        this.mapContexts(object, value, propertyPlan.customMetadatas, validationError);
+    }
+
+    /**
+     * Converts value of the given property by the conversion metadatas and writes converted value back to the object.
+     * If implicit conversion is enabled then string values are converted by the type checkers as well.
+     * Returns metadatas of the failed conversions.
+     */
+    private performConversions(object: any, propertyName: string, propertyPlan: PropertyValidationPlan): ValidationMetadata[] {
+        const value = object[propertyName];
+        if (value === null || value === undefined || value instanceof Promise)
+            return [];
+
+        const failedConversions: ValidationMetadata[] = [];
+        propertyPlan.conversionMetadatas.forEach(metadata => {
+            const convertedValue = this.convertValue(object[propertyName], metadata, false);
+            if (convertedValue === undefined) {
+                failedConversions.push(metadata);
+            } else {
+                object[propertyName] = convertedValue;
+            }
+        });
+
+        if (failedConversions.length > 0 || !this.validatorOptions || !this.validatorOptions.enableImplicitConversion)
+            return failedConversions;
+
+        propertyPlan.implicitConversionMetadatas.forEach(conversionMetadata => {
+            const convertedValue = this.convertValue(object[propertyName], conversionMetadata, true);
+            if (convertedValue !== undefined)
+                object[propertyName] = convertedValue;
+        });
+        return failedConversions;
     }
 
-    private generateValidationError(object: Object, value: any, propertyName: string) {
+    /**
+     * Converts the given value, or each its item if conversion is set to "each".
+     * Returns undefined if value or any of its items can't be converted.
+     * Implicit conversions are applied to the strings only.
+     */
+    private convertValue(value: any, metadata: ValidationMetadata, isImplicit: boolean): any {
+        const convert = (subValue: any) => {
+            if (isImplicit && typeof subValue !== "string")
+                return subValue;
+            return this.valueConverter.convertValueByMetadata(subValue, metadata);
+        };
+
+        if (!metadata.each || !(value instanceof Array || value instanceof Set || value instanceof Map))
+            return convert(value);
+
+        const entries = value instanceof Map ? Array.from(value.entries()) : Array.from(value as Array<any>|Set<any>).map((item, index) => [index, item]);
+        const convertedEntries = entries.map(([key, item]) => [key, convert(item)]);
+        if (convertedEntries.some(([key, item]) => item === undefined))
+            return undefined;
+
+        if (value instanceof Map)
+            return new Map(convertedEntries as [any, any][]);
+        const convertedItems = convertedEntries.map(([key, item]) => item);
+        return value instanceof Set ? new Set(convertedItems) : convertedItems;
+    }
+
+    private generateValidationError(object: Object, value: any, propertyName: string, path: string, pointer: string) {
         const validationError = new ValidationError();
 
         if (!this.validatorOptions ||
@@ -199,135 +425,576 @@ export class ValidationExecutor {
             this.validatorOptions.validationError.target === true)
             validationError.target = object;
 
-        if (!this.validatorOptions ||
-            !this.validatorOptions.validationError ||
-            this.validatorOptions.validationError.value === undefined ||
-            this.validatorOptions.validationError.value === true)
+        if (this.isValueExposed())
             validationError.value = value;
 
         validationError.property = propertyName;
+        validationError.path = path;
+        validationError.pointer = pointer;
         validationError.children = [];
         validationError.constraints = {};
+        validationError.issues = [];
 
         return validationError;
     }
 
+    private isValueExposed() {
+        return !this.validatorOptions ||
+            !this.validatorOptions.validationError ||
+            this.validatorOptions.validationError.value === undefined ||
+            this.validatorOptions.validationError.value === true;
+    }
+
+    /**
+     * Gets plans of the properties requested by the "properties" option, cached plans are left intact.
+     * Only nested and conditional validations are left for the properties containing requested properties.
+     */
+    private filterRequestedProperties(propertyPlans: { [propertyName: string]: PropertyValidationPlan },
+                                      parentPath: string): { [propertyName: string]: PropertyValidationPlan } {
+        const requestedPlans: { [propertyName: string]: PropertyValidationPlan } = {};
+        Object.keys(propertyPlans).forEach(propertyName => {
+            const path = ValidationUtils.appendPath(parentPath, propertyName);
+            if (this.isPropertyRequested(path)) {
+                requestedPlans[propertyName] = propertyPlans[propertyName];
+
+            } else if (this.isRequestedPropertyAncestor(path)) {
+                requestedPlans[propertyName] = ValidationPlan.createPropertyPlan(propertyPlans[propertyName].metadatas.filter(metadata => {
+                    return metadata.type === ValidationTypes.NESTED_VALIDATION ||
+                        metadata.type === ValidationTypes.PROMISE_VALIDATION ||
+                        metadata.type === ValidationTypes.CONDITIONAL_VALIDATION;
+                }));
+            }
+        });
+        return requestedPlans;
+    }
+
+    /**
+     * Checks if property with the given path is requested by the "properties" option, or it's nested in the requested one.
+     */
+    private isPropertyRequested(path: string): boolean {
+        return this.getRequestedPaths().some(requestedPath => {
+            return path === requestedPath || path.indexOf(requestedPath + ".") === 0 || path.indexOf(requestedPath + "[") === 0;
+        });
+    }
+
+    private isRequestedPropertyAncestor(path: string): boolean {
+        return this.getRequestedPaths().some(requestedPath => {
+            return requestedPath.indexOf(path + ".") === 0 || requestedPath.indexOf(path + "[") === 0;
+        });
+    }
+
+    /**
+     * Gets paths of the "properties" option in the format of ValidationError.path, e.g. "items.0.sku" becomes "items[0].sku".
+     */
+    private getRequestedPaths(): string[] {
+        return this.validatorOptions.properties.map(property => property.replace(/\.(\d+)(?=\.|\[|$)/g, "[$1]"));
+    }
+
+    private shouldBail(metadata: ValidationMetadata): boolean {
+        return metadata.bail === true || (!!this.validatorOptions && this.validatorOptions.stopAtFirstError === true);
+    }
+
+    /**
+     * Counts failed constraints of the property, including ones reported per collection item.
+     */
+    private countFailures(error: ValidationError): number {
+        const itemErrors = this.itemErrors.get(error) || [];
+        return itemErrors.reduce((count, itemError) => count + itemError.issues.length, error.issues.length);
+    }
+
+    private hasErrors(error: ValidationError): boolean {
+        return (!!error.constraints && Object.keys(error.constraints).length > 0) ||
+            (!!error.children && error.children.some(childError => this.hasErrors(childError)));
+    }
+
+    /**
+     * Runs the given validations in order. If validation with "bail" fails then remaining validations are skipped,
+     * and they are run only after async validations of the "bail" validation are finished.
+     */
+    private runSequentially(validations: { bail: boolean, run: () => void }[], countFailures: () => number): void {
+        if (!validations.length)
+            return;
+
+        const [validation, ...remainingValidations] = validations;
+        if (!validation.bail) {
+            validation.run();
+            return this.runSequentially(remainingValidations, countFailures);
+        }
+
+        const failuresCount = countFailures();
+        const promise = this.collectPromises(validation.run);
+
+        const runRemaining = () => {
+            if (countFailures() === failuresCount)
+                return this.collectPromises(() => this.runSequentially(remainingValidations, countFailures));
+        };
+        if (promise) {
+            this.awaitingPromises.push(promise.then(runRemaining));
+        } else {
+            runRemaining();
+        }
+    }
+
+    /**
+     * Runs the given validation and returns promise of async validations it started, if any.
+     */
+    private collectPromises(validation: () => void): Promise<any> {
+        const promisesCount = this.awaitingPromises.length;
+        validation();
+        const promises = this.awaitingPromises.slice(promisesCount);
+        return promises.length ? Promise.all(promises) : undefined;
+    }
+
+    /**
+     * Waits for all async validations, including ones started after the previous async validations were finished.
+     */
+    private awaitAllPromises(): Promise<void> {
+        const promisesCount = this.awaitingPromises.length;
+        return Promise.all(this.awaitingPromises).then(() => {
+            if (this.awaitingPromises.length > promisesCount)
+                return this.awaitAllPromises();
+        });
+    }
+
+    private getLocale(): string {
+        return this.validatorOptions ? this.validatorOptions.locale : undefined;
+    }
+
+    private getContext(): any {
+        return this.validatorOptions ? this.validatorOptions.context : undefined;
+    }
+
     private conditionalValidations(object: Object,
                                    value: any,
                                    metadatas: ValidationMetadata[]) {
+        const context = this.getContext();
         return metadatas
-            .map(metadata => metadata.constraints[0](object, value))
+            .map(metadata => metadata.constraints[0](object, value, context))
             .reduce((resultA, resultB) => resultA && resultB, true);
     }
 
     private defaultValidations(object: Object,
                                value: any,
                                metadatas: ValidationMetadata[],
-                               errorMap: { [key: string]: string }) {
-        return metadatas
-            .filter(metadata => {
-                if (metadata.each) {
-                    if (value instanceof Array || value instanceof Set || value instanceof Map) {
-                        const arrayValue = convertToArray(value);
-                        return !arrayValue.every((subValue: any) => this.validator.validateValueByMetadata(subValue, metadata));
-                    }
+                               error: ValidationError) {
+        metadatas.forEach(metadata => {
+            const definition = this.constraintRegistry.get(metadata.type);
+            if (definition && definition.async && this.ignoreAsyncValidations) {
+                this.skipAsyncValidation(object, metadata.propertyName, definition);
+                return;
+            }
 
-                } else {
-                    return !this.validator.validateValueByMetadata(value, metadata);
+            if (!metadata.each) {
+                const result = this.validator.validateValueByMetadata(value, metadata, object, this.getContext());
+                this.handleResults(object, metadata, definition, [result], ([isValid]) => {
+                    if (!isValid)
+                        this.createValidationError(error, object, value, metadata);
+                });
+                return;
+            }
+
+            const collection = this.getCollection(value, metadata);
+            if (!collection)
+                return;
+
+            const entries = convertToEntries(collection);
+            const results = entries.map(([key, subValue]) => this.validator.validateValueByMetadata(subValue, metadata, object, this.getContext()));
+            this.handleResults(object, metadata, definition, results, flatResults => {
+                if (this.shouldReportItemErrors(metadata)) {
+                    flatResults.forEach((isValid, index) => {
+                        if (!isValid)
+                            this.createItemValidationError(error, object, value, entries[index][0], entries[index][1], metadata);
+                    });
+                } else if (!flatResults.every(isValid => isValid)) {
+                    this.createValidationError(error, object, value, metadata);
                 }
-            })
-            .forEach(metadata => {
-                const [key, message] = this.createValidationError(object, value, metadata);
-                errorMap[key] = message;
             });
+        });
+    }
+
+    /**
+     * Passes results of the registered constraint to the given callback, after they are resolved if constraint is async.
+     */
+    private handleResults(object: Object,
+                          metadata: ValidationMetadata,
+                          definition: ConstraintDefinition,
+                          results: (boolean | Promise<boolean>)[],
+                          callback: (results: boolean[]) => void) {
+        if (!results.some(result => isPromise(result))) {
+            callback(results as boolean[]);
+        } else if (this.ignoreAsyncValidations) {
+            this.skipAsyncValidation(object, metadata.propertyName, definition, results);
+        } else {
+            this.awaitingPromises.push(Promise.all(results).then(callback));
+        }
     }
 
     private customValidations(object: Object,
                               value: any,
                               metadatas: ValidationMetadata[],
-                              errorMap: { [key: string]: string }) {
+                              error: ValidationError) {
 
         metadatas.forEach(metadata => {
-            getFromContainer(MetadataStorage)
+            this.metadataStorage
                 .getTargetValidatorConstraints(metadata.constraintCls)
                 .forEach(customConstraintMetadata => {
-                    if (customConstraintMetadata.async && this.ignoreAsyncValidations)
+                    if (customConstraintMetadata.async && this.ignoreAsyncValidations) {
+                        this.skipAsyncValidation(object, metadata.propertyName, customConstraintMetadata);
                         return;
+                    }
 
                     const validationArguments: ValidationArguments = {
-                        targetName: object.constructor ? (object.constructor as any).name : undefined,
+                        targetName: this.getTargetName(object),
                         property: metadata.propertyName,
                         object: object,
                         value: value,
-                        constraints: metadata.constraints
+                        constraints: metadata.constraints,
+                        context: this.getContext()
                     };
 
-                    if (!metadata.each || !(value instanceof Array || value instanceof Set || value instanceof Map)) {
-                        const validatedValue = customConstraintMetadata.instance.validate(value, validationArguments);
-                        if (isPromise(validatedValue)) {
+                    const onTimeout = () => this.createTimeoutError(error, object, value, metadata, customConstraintMetadata);
+                    const collection = metadata.each ? this.getCollection(value, metadata) : undefined;
+                    if (!collection) {
+                        const validatedValue = this.callConstraint(customConstraintMetadata, validationArguments, onTimeout,
+                            args => customConstraintMetadata.instance.validate(value, args));
+                        if (isPromise(validatedValue) && this.ignoreAsyncValidations) {
+                            this.skipAsyncValidation(object, metadata.propertyName, customConstraintMetadata, [validatedValue]);
+                        } else if (isPromise(validatedValue)) {
                             const promise = validatedValue.then(isValid => {
                                 if (!isValid) {
-                                    const [type, message] = this.createValidationError(object, value, metadata, customConstraintMetadata);
-                                    errorMap[type] = message;
+                                    this.createValidationError(error, object, value, metadata, customConstraintMetadata);
                                 }
                             });
                             this.awaitingPromises.push(promise);
                         } else {
                             if (!validatedValue) {
-                                const [type, message] = this.createValidationError(object, value, metadata, customConstraintMetadata);
-                                errorMap[type] = message;
+                                this.createValidationError(error, object, value, metadata, customConstraintMetadata);
                             }
                         }
 
                         return;
                     }
 
-                    // convert set and map into array
-                    const arrayValue = convertToArray(value);
+                    // convert array, set and map into entries
+                    const entries = convertToEntries(collection);
                     // Validation needs to be applied to each array item
-                    const validatedSubValues = arrayValue.map((subValue: any) => customConstraintMetadata.instance.validate(subValue, validationArguments));
+                    const validatedSubValues = entries.map(([key, subValue]) => {
+                        return this.callConstraint(customConstraintMetadata, validationArguments, onTimeout,
+                            args => customConstraintMetadata.instance.validate(subValue, args));
+                    });
+                    const reportErrors = (flatValidatedValues: boolean[]) => {
+                        if (this.shouldReportItemErrors(metadata)) {
+                            flatValidatedValues.forEach((isValid, index) => {
+                                if (!isValid) {
+                                    const [key, subValue] = entries[index];
+                                    this.createItemValidationError(error, object, value, key, subValue, metadata, customConstraintMetadata);
+                                }
+                            });
+                        } else if (!flatValidatedValues.every((isValid: boolean) => isValid)) {
+                            this.createValidationError(error, object, value, metadata, customConstraintMetadata);
+                        }
+                    };
                     const validationIsAsync = validatedSubValues
                         .some((validatedSubValue: boolean | Promise<boolean>) => isPromise(validatedSubValue));
 
+                    if (validationIsAsync && this.ignoreAsyncValidations) {
+                        this.skipAsyncValidation(object, metadata.propertyName, customConstraintMetadata, validatedSubValues);
+                        return;
+                    }
+
                     if (validationIsAsync) {
                         // Wrap plain values (if any) in promises, so that all are async
                         const asyncValidatedSubValues = validatedSubValues
                             .map((validatedSubValue: boolean | Promise<boolean>) => isPromise(validatedSubValue) ? validatedSubValue : Promise.resolve(validatedSubValue));
-                        const asyncValidationIsFinishedPromise = Promise.all(asyncValidatedSubValues)
-                            .then((flatValidatedValues: boolean[]) => {
-                                const validationResult = flatValidatedValues.every((isValid: boolean) => isValid);
-                                if (!validationResult) {
-                                    const [type, message] = this.createValidationError(object, value, metadata, customConstraintMetadata);
-                                    errorMap[type] = message;
-                                }
-                            });
+                        const asyncValidationIsFinishedPromise = Promise.all(asyncValidatedSubValues).then(reportErrors);
 
                         this.awaitingPromises.push(asyncValidationIsFinishedPromise);
 
                         return;
                     }
 
-                    const validationResult = validatedSubValues.every((isValid: boolean) => isValid);
-                    if (!validationResult) {
-                        const [type, message] = this.createValidationError(object, value, metadata, customConstraintMetadata);
-                        errorMap[type] = message;
-                    }
+                    reportErrors(validatedSubValues);
                 });
         });
     }
 
-    private nestedPromiseValidations(value: any, metadatas: ValidationMetadata[], errors: ValidationError[]) {
+    private classValidations(object: Object,
+                             metadata: ValidationMetadata,
+                             validationErrors: ValidationError[],
+                             parentPath: string,
+                             parentPointer: string) {
+
+        this.metadataStorage
+            .getTargetValidatorConstraints(metadata.constraintCls)
+            .forEach(customConstraintMetadata => {
+                if (customConstraintMetadata.async && this.ignoreAsyncValidations) {
+                    this.skipAsyncValidation(object, undefined, customConstraintMetadata);
+                    return;
+                }
+
+                const validationArguments: ValidationArguments = {
+                    targetName: this.getTargetName(object),
+                    property: undefined,
+                    object: object,
+                    value: object,
+                    constraints: metadata.constraints,
+                    context: this.getContext()
+                };
+                const constraint = getFromContainer<ClassValidatorConstraintInterface>(customConstraintMetadata.target);
+                const onTimeout = () => {
+                    const timeoutMetadata = this.createTimeoutMetadata(metadata, customConstraintMetadata);
+                    this.addClassViolations(object, false, timeoutMetadata, undefined, validationErrors, parentPath, parentPointer);
+                };
+                const result = this.callConstraint(customConstraintMetadata, validationArguments, onTimeout,
+                    args => constraint.validate(object, args));
+                if (isPromise(result) && this.ignoreAsyncValidations) {
+                    this.skipAsyncValidation(object, undefined, customConstraintMetadata, [result]);
+                } else if (isPromise(result)) {
+                    this.awaitingPromises.push(result.then(resolvedResult => {
+                        this.addClassViolations(object, resolvedResult, metadata, customConstraintMetadata, validationErrors, parentPath, parentPointer);
+                    }));
+                } else {
+                    this.addClassViolations(object, result, metadata, customConstraintMetadata, validationErrors, parentPath, parentPointer);
+                }
+            });
+    }
+
+    /**
+     * Performs the given validation of the custom constraint with its own signal,
+     * aborted when validation is cancelled or the constraint times out.
+     * Constraints aren't performed once async validation is cancelled, their results are rejected with the abort reason instead.
+     * Async constraints are queued if the "maxAsyncConcurrency" limit is reached.
+     */
+    private callConstraint(customConstraintMetadata: ConstraintMetadata,
+                           validationArguments: ValidationArguments,
+                           onTimeout: () => void,
+                           validate: (validationArguments: ValidationArguments) => any): any {
+        const call = () => {
+            const signal = this.getSignal();
+            if (signal && signal.aborted && !this.ignoreAsyncValidations)
+                return Promise.reject(this.getAbortReason(signal));
+
+            const abortController = signal || this.getAsyncTimeout() ? createAbortController() : undefined;
+            const abort = () => abortController.abort(signal.reason);
+            if (signal)
+                signal.addEventListener("abort", abort);
+            const removeAbortListener = () => signal && signal.removeEventListener("abort", abort);
+
+            const result = validate(Object.assign({}, validationArguments, { signal: abortController ? abortController.signal : undefined }));
+            if (!isPromise(result) || this.ignoreAsyncValidations) {
+                removeAbortListener();
+                return result;
+            }
+
+            return this.limitTime(result, abortController, onTimeout).then(
+                limitedResult => {
+                    removeAbortListener();
+                    return limitedResult;
+                },
+                error => {
+                    removeAbortListener();
+                    throw error;
+                });
+        };
+
+        const maxConcurrency = this.validatorOptions ? this.validatorOptions.maxAsyncConcurrency : undefined;
+        if (!customConstraintMetadata.async || this.ignoreAsyncValidations || !maxConcurrency)
+            return call();
+
+        return new Promise((resolve, reject) => {
+            const start = () => {
+                this.runningAsyncValidationsCount++;
+                const finish = () => {
+                    this.runningAsyncValidationsCount--;
+                    const next = this.asyncValidationsQueue.shift();
+                    if (next)
+                        next();
+                };
+                let result: Promise<any>;
+                try {
+                    result = Promise.resolve(call());
+                } catch (error) {
+                    result = Promise.reject(error);
+                }
+                result.then(value => {
+                    finish();
+                    resolve(value);
+                }, error => {
+                    finish();
+                    reject(error);
+                });
+            };
+
+            if (this.runningAsyncValidationsCount < maxConcurrency) {
+                start();
+            } else {
+                this.asyncValidationsQueue.push(start);
+            }
+        });
+    }
+
+    /**
+     * Resolves with the result of the given promise, or with true if it isn't resolved in time.
+     * Constraint which timed out is reported using the given callback, and its signal is aborted.
+     * If validation is cancelled then timer is cleared and the result is rejected with the abort reason.
+     */
+    private limitTime(promise: Promise<any>, abortController: { abort(reason?: any): void }, onTimeout: () => void): Promise<any> {
+        const timeout = this.getAsyncTimeout();
+        if (!timeout)
+            return promise;
+
+        const signal = this.getSignal();
+        return new Promise((resolve, reject) => {
+            let onAbort: () => void;
+            const timer = setTimeout(() => {
+                settle();
+                abortController.abort();
+                onTimeout();
+                resolve(true);
+            }, timeout);
+            const settle = () => {
+                clearTimeout(timer);
+                if (signal)
+                    signal.removeEventListener("abort", onAbort);
+            };
+            if (signal) {
+                onAbort = () => {
+                    settle();
+                    reject(this.getAbortReason(signal));
+                };
+                signal.addEventListener("abort", onAbort);
+            }
+            promise.then(result => {
+                settle();
+                resolve(result);
+            }, error => {
+                settle();
+                reject(error);
+            });
+        });
+    }
+
+    /**
+     * Adds "asyncTimeout" error of the given custom constraint, only once for all items of the validated value.
+     */
+    private createTimeoutError(error: ValidationError,
+                               object: Object,
+                               value: any,
+                               metadata: ValidationMetadata,
+                               customConstraintMetadata: ConstraintMetadata) {
+        const isReported = error.issues.some(issue => {
+            return issue.code === ValidationTypes.ASYNC_TIMEOUT && issue.constraints[0] === customConstraintMetadata.name;
+        });
+        if (!isReported)
+            this.createValidationError(error, object, value, this.createTimeoutMetadata(metadata, customConstraintMetadata));
+    }
+
+    private createTimeoutMetadata(metadata: ValidationMetadata, customConstraintMetadata: ConstraintMetadata): ValidationMetadata {
+        return Object.assign(Object.create(metadata), {
+            type: ValidationTypes.ASYNC_TIMEOUT,
+            constraints: [customConstraintMetadata.name, this.getAsyncTimeout()],
+            message: undefined,
+            each: false
+        });
+    }
+
+    private getAsyncTimeout(): number {
+        return this.validatorOptions ? this.validatorOptions.asyncTimeout : undefined;
+    }
+
+    private getSignal(): AbortSignalLike {
+        return this.validatorOptions ? this.validatorOptions.signal : undefined;
+    }
+
+    private getAbortReason(signal: AbortSignalLike): any {
+        if (signal.reason !== undefined)
+            return signal.reason;
+
+        const error = new Error("Validation was aborted.");
+        error.name = "AbortError";
+        return error;
+    }
+
+    /**
+     * Handles async constraint skipped by the sync validation according to the "asyncMode" option:
+     * ignores it, warns about it or throws an error.
+     * Promises the constraint already returned aren't awaited, so their rejections are not reported as unhandled.
+     */
+    private skipAsyncValidation(object: Object,
+                                propertyName: string,
+                                constraint: ConstraintMetadata | ConstraintDefinition,
+                                results: any[] = []) {
+        results
+            .filter(result => isPromise(result))
+            .forEach((result: Promise<any>) => result.then(undefined, () => undefined));
+
+        const asyncMode = this.validatorOptions && this.validatorOptions.asyncMode ? this.validatorOptions.asyncMode : "ignore";
+        if (asyncMode === "ignore")
+            return;
+
+        const target = this.getTargetName(object) + (propertyName ? "." + propertyName : "");
+        const message = constraint.async
+            ? `Async constraint "${constraint.name}" of ${target} can't be performed by sync validation.`
+            : `Constraint "${constraint.name}" of ${target} is not marked as async, but returned a promise, ` +
+              `which can't be awaited by sync validation.`;
+        if (asyncMode === "error")
+            throw new Error(message);
+
+        console.warn(message);
+    }
+
+    /**
+     * Adds violations of the class-level constraint to the errors of the properties they are attributed to,
+     * violations of the object itself are added to the error without property.
+     */
+    private addClassViolations(object: Object,
+                               result: boolean|ClassValidationViolation[],
+                               metadata: ValidationMetadata,
+                               customConstraintMetadata: ConstraintMetadata,
+                               validationErrors: ValidationError[],
+                               parentPath: string,
+                               parentPointer: string) {
+
+        const violations: ClassValidationViolation[] = result === false ? [{}] : result instanceof Array ? result : [];
+        violations.forEach(violation => {
+            const path = violation.property ? ValidationUtils.appendPath(parentPath, violation.property) : parentPath;
+            if (this.validatorOptions && this.validatorOptions.properties && !this.isPropertyRequested(path))
+                return;
+
+            const value = violation.property ? getValueByPath(object, violation.property) : object;
+            let error = validationErrors.find(validationError => validationError.path === path);
+            if (!error) {
+                const pointer = (violation.property || "")
+                    .replace(/\[([^\]]*)\]/g, ".$1")
+                    .split(".")
+                    .filter(token => token !== "")
+                    .reduce((parentTokens, token) => ValidationUtils.appendPointer(parentTokens, token), parentPointer);
+                error = this.generateValidationError(object, value, violation.property, path, pointer);
+                validationErrors.push(error);
+            }
+
+            const violationMetadata: ValidationMetadata = Object.assign(Object.create(metadata), {
+                propertyName: violation.property,
+                message: violation.message || metadata.message
+            });
+            this.createValidationError(error, object, value, violationMetadata, customConstraintMetadata);
+            this.mapContexts(object, value, [metadata], error);
+        });
+    }
+
+    private nestedPromiseValidations(value: any, metadatas: ValidationMetadata[], error: ValidationError) {
 
         if (!(value instanceof Promise)) {
             return;
         }
 
         this.awaitingPromises.push(
-            value.then(resolvedValue => this.nestedValidations(resolvedValue, metadatas, errors))
+            value.then(resolvedValue => this.nestedValidations(resolvedValue, metadatas, error))
         );
     }
 
-    private nestedValidations(value: any, metadatas: ValidationMetadata[], errors: ValidationError[]) {
+    private nestedValidations(value: any, metadatas: ValidationMetadata[], propertyError: ValidationError) {
+        const errors = propertyError.children;
 
         if (value === void 0) {
             return;
@@ -341,35 +1008,144 @@ export class ValidationExecutor {
                 return;
             }
 
-            const targetSchema = typeof metadata.target === "string" ? metadata.target as string : undefined;
+            const typeOptions: NestedValidationTypeOptions = metadata.validationTypeOptions || {};
+            const targetSchema = typeOptions.schema || (typeof metadata.target === "string" ? metadata.target as string : undefined);
 
-            if (value instanceof Array || value instanceof Set || value instanceof Map) {
+            const collection = this.getCollection(value, metadata);
+            if (collection) {
                 // Treats Set as an array - as index of Set value is value itself and it is common case to have Object as value
-                const arrayLikeValue = value instanceof Set ? Array.from(value) : value;
+                const arrayLikeValue: any = collection instanceof Set ? Array.from(collection) : collection;
                 arrayLikeValue.forEach((subValue: any, index: any) => {
-                    const validationError = this.generateValidationError(value, subValue, index.toString());
-                    errors.push(validationError);
+                    const path = ValidationUtils.appendPath(propertyError.path, index.toString(), true);
+                    if (this.validatorOptions && this.validatorOptions.properties && !this.isPropertyRequested(path) && !this.isRequestedPropertyAncestor(path))
+                        return;
 
-                    this.execute(subValue, targetSchema, validationError.children);
+                    const validationError = this.getItemError(propertyError, value, index, subValue);
+                    this.executeNested(subValue, targetSchema, metadata, validationError);
                 });
 
             } else if (value instanceof Object) {
-                this.execute(value, targetSchema, errors);
+                this.executeNested(value, targetSchema, metadata, propertyError);
 
             } else {
                 const error = new ValidationError();
                 error.value = value;
                 error.property = metadata.propertyName;
+                error.path = propertyError.path;
+                error.pointer = propertyError.pointer;
                 error.target = metadata.target;
-                const [type, message] = this.createValidationError(metadata.target, value, metadata);
-                error.constraints = {
-                    [type]: message
-                };
+                error.constraints = {};
+                error.issues = [];
+                this.createValidationError(error, metadata.target, value, metadata);
                 errors.push(error);
             }
         });
     }
 
+    /**
+     * Validates keys of the map or of the dictionary object with the decorators passed to @ValidateKeys.
+     * Failures are added to the errors of the entries, keyed by the entry key.
+     */
+    private keysValidations(object: Object, value: any, metadata: ValidationMetadata, error: ValidationError) {
+        if (!(value instanceof Object) || value instanceof Array || value instanceof Set)
+            return;
+
+        const keyMetadatas: ValidationMetadata[] = metadata.constraints;
+        const keys: any[] = value instanceof Map ? Array.from(value.keys()) : Object.keys(value);
+        keys.forEach(key => {
+            const itemError = this.getItemError(error, value, key, value instanceof Map ? value.get(key) : value[key]);
+            keyMetadatas.forEach(keyMetadata => {
+                const entryKeyMetadata: ValidationMetadata = Object.assign(Object.create(keyMetadata), {
+                    propertyName: "key of " + ValidationUtils.appendPath(metadata.propertyName, String(key), true)
+                });
+                if (keyMetadata.type === ValidationTypes.CUSTOM_VALIDATION) {
+                    this.customValidations(object, key, [entryKeyMetadata], itemError);
+                } else {
+                    this.defaultValidations(object, key, [entryKeyMetadata], itemError);
+                }
+            });
+        });
+    }
+
+    /**
+     * Gets collection validated item by item: array, set, map, or entries of the dictionary object as a map.
+     */
+    private getCollection(value: any, metadata: ValidationMetadata): Array<any>|Set<any>|Map<any, any> {
+        if (value instanceof Array || value instanceof Set || value instanceof Map)
+            return value;
+
+        if (metadata.dictionary && value instanceof Object)
+            return new Map(Object.keys(value).map(key => [key, value[key]] as [string, any]));
+
+        return undefined;
+    }
+
+    /**
+     * Validates nested value, adding its errors to the children of the given error.
+     * If discriminator is set then value is validated with the class selected by the discriminator value.
+     * Plain objects are validated with the declared nested type.
+     */
+    private executeNested(value: any, targetSchema: string, metadata: ValidationMetadata, error: ValidationError) {
+        const typeOptions: NestedValidationTypeOptions = metadata.validationTypeOptions || {};
+        const discriminator = typeOptions.discriminator;
+        if (!discriminator || !(value instanceof Object)) {
+            const targetConstructor = this.isPlainObject(value) ? this.getNestedType(metadata) : undefined;
+            if (this.isPlainObject(value) && !targetConstructor && !targetSchema) {
+                const nestedTypeMetadata: ValidationMetadata = Object.assign(Object.create(metadata), {
+                    type: ValidationTypes.NESTED_TYPE,
+                    constraints: []
+                });
+                this.createValidationError(error, value, value, nestedTypeMetadata);
+                return;
+            }
+            return this.execute(value, targetSchema, error.children, error.path, error.pointer, targetConstructor);
+        }
+
+        const discriminatorValue = value[discriminator.property];
+        const subType = discriminator.subTypes.find(subType => subType.name === discriminatorValue);
+        if (!subType) {
+            const discriminatorMetadata: ValidationMetadata = Object.assign(Object.create(metadata), {
+                type: ValidationTypes.NESTED_DISCRIMINATOR,
+                constraints: [discriminator.property, discriminator.subTypes.map(subType => subType.name)]
+            });
+            this.createValidationError(error, value, discriminatorValue, discriminatorMetadata);
+            return;
+        }
+
+        this.execute(value, targetSchema, error.children, error.path, error.pointer, subType.value);
+    }
+
+    /**
+     * Gets class of the nested value from the "type" option or from emitted "design:type" metadata.
+     */
+    private getNestedType(metadata: ValidationMetadata): Function {
+        const typeOptions: NestedValidationTypeOptions = metadata.validationTypeOptions || {};
+        if (typeOptions.type)
+            return typeOptions.type();
+
+        const reflect = typeof Reflect !== "undefined" ? Reflect as any : undefined;
+        if (reflect && reflect.getMetadata instanceof Function && metadata.target instanceof Function) {
+            const designType = reflect.getMetadata("design:type", metadata.target.prototype, metadata.propertyName);
+            if (designType instanceof Function && designType !== Object && designType !== Array && designType !== Map && designType !== Set)
+                return designType;
+        }
+
+        return undefined;
+    }
+
+    private getTargetName(object: Object): string {
+        const targetConstructor = this.targetConstructors.get(object) || object.constructor;
+        return targetConstructor ? (targetConstructor as any).name : undefined;
+    }
+
+    private isPlainObject(value: any): boolean {
+        if (!(value instanceof Object))
+            return false;
+
+        const prototype = Object.getPrototypeOf(value);
+        return prototype === Object.prototype || prototype === null;
+    }
+
     private mapContexts(object: Object,
                         value: any,
                         metadatas: ValidationMetadata[],
@@ -379,7 +1155,7 @@ export class ValidationExecutor {
             .forEach(metadata => {
                 if (metadata.context) {
                     let customConstraint;
-                    if (metadata.type === ValidationTypes.CUSTOM_VALIDATION) {
+                    if (metadata.type === ValidationTypes.CUSTOM_VALIDATION || metadata.type === ValidationTypes.CLASS_VALIDATION) {
                         const customConstraints = this.metadataStorage.getTargetValidatorConstraints(metadata.constraintCls);
                         customConstraint = customConstraints[0];
                     }
@@ -397,34 +1173,113 @@ export class ValidationExecutor {
             });
     }
 
-    private createValidationError(object: Object,
+    /**
+     * Adds failed constraint of the given metadata to the given error.
+     */
+    private createValidationError(error: ValidationError,
+                                  object: Object,
                                   value: any,
                                   metadata: ValidationMetadata,
-                                  customValidatorMetadata?: ConstraintMetadata): [string, string] {
+                                  customValidatorMetadata?: ConstraintMetadata) {
 
-        const targetName = object.constructor ? (object.constructor as any).name : undefined;
+        const targetName = this.getTargetName(object);
         const type = this.getConstraintType(metadata, customValidatorMetadata);
         const validationArguments: ValidationArguments = {
             targetName: targetName,
             property: metadata.propertyName,
             object: object,
             value: value,
-            constraints: metadata.constraints
+            constraints: metadata.constraints,
+            context: this.getContext()
         };
 
         let message = metadata.message;
+        let isCatalogMessage = false;
         if (!metadata.message &&
             (!this.validatorOptions || (this.validatorOptions && !this.validatorOptions.dismissDefaultMessages))) {
-            if (customValidatorMetadata && customValidatorMetadata.instance.defaultMessage instanceof Function) {
+            // catalogs of the requested locale translate own messages of the custom constraints,
+            // but the catalog of the default locale doesn't replace them
+            message = this.messageCatalogStorage.getMessage(type, this.getLocale(), metadata.each, false);
+            isCatalogMessage = !!message;
+
+            if (!message && customValidatorMetadata && customValidatorMetadata.instance.defaultMessage instanceof Function) {
                 message = customValidatorMetadata.instance.defaultMessage(validationArguments);
             }
 
+            if (!message) {
+                message = this.messageCatalogStorage.getMessage(type, MessageCatalogStorage.DEFAULT_LOCALE, metadata.each);
+                isCatalogMessage = !!message;
+            }
+
             if (!message)
                 message = ValidationTypes.getMessage(type, metadata.each);
         }
 
-        const messageString = ValidationUtils.replaceMessageSpecialTokens(message, validationArguments);
-        return [type, messageString];
+        const messageString = ValidationUtils.replaceMessageSpecialTokens(message, validationArguments, this.getLocale(), isCatalogMessage);
+        const issue: ValidationIssue = {
+            code: type,
+            message: messageString,
+            constraints: metadata.constraints || [],
+            path: error.path
+        };
+        if (this.isValueExposed())
+            issue.value = value;
+
+        this.addIssue(error, issue);
+    }
+
+    /**
+     * Creates error of the collection item failed "each" validation, item errors are added to the children
+     * of the collection error the same way as errors of the nested collection items, e.g. "tags[2]".
+     */
+    private createItemValidationError(error: ValidationError,
+                                      object: Object,
+                                      collection: any,
+                                      key: any,
+                                      value: any,
+                                      metadata: ValidationMetadata,
+                                      customValidatorMetadata?: ConstraintMetadata) {
+        const itemError = this.getItemError(error, collection, key, value);
+        const itemMetadata: ValidationMetadata = Object.assign(Object.create(metadata), {
+            propertyName: ValidationUtils.appendPath(metadata.propertyName, String(key), true),
+            each: false
+        });
+        this.createValidationError(itemError, object, value, itemMetadata, customValidatorMetadata);
+        this.mapContexts(object, value, [metadata], itemError);
+    }
+
+    /**
+     * Gets error of the collection item with the given key (index of the array item), creates it if it doesn't exist.
+     */
+    private getItemError(error: ValidationError, collection: any, key: any, value: any): ValidationError {
+        if (!this.itemErrors.has(error))
+            this.itemErrors.set(error, []);
+        const itemErrors = this.itemErrors.get(error);
+
+        const property = String(key);
+        let itemError = itemErrors.find(itemError => itemError.property === property);
+        if (!itemError) {
+            itemError = this.generateValidationError(collection, value, property,
+                ValidationUtils.appendPath(error.path, property, true), ValidationUtils.appendPointer(error.pointer, property));
+            itemErrors.push(itemError);
+            error.children.push(itemError);
+        }
+        return itemError;
+    }
+
+    private shouldReportItemErrors(metadata: ValidationMetadata): boolean {
+        if (metadata.itemErrors !== undefined && metadata.itemErrors !== null)
+            return metadata.itemErrors;
+
+        return !!this.validatorOptions && this.validatorOptions.itemErrors === true;
+    }
+
+    /**
+     * Adds failed constraint to both constraints map and issues list of the given error.
+     */
+    private addIssue(error: ValidationError, issue: ValidationIssue) {
+        error.constraints[issue.code] = issue.message;
+        error.issues.push(issue);
     }
 
     private getConstraintType(metadata: ValidationMetadata, customValidatorMetadata?: ConstraintMetadata): string {
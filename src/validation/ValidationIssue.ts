@@ -0,0 +1,47 @@
+import {ValidationTypes} from "./ValidationTypes";
+
+/**
+ * Names of the validation types defined in ValidationTypes (e.g. "minLength").
+ */
+export type ValidationTypeName = {
+    [K in keyof typeof ValidationTypes]: (typeof ValidationTypes)[K] extends string ? (typeof ValidationTypes)[K] : never
+}[keyof typeof ValidationTypes];
+
+/**
+ * Code of the failed constraint: name of the validation type, or name of the custom or registered constraint.
+ */
+export type ValidationIssueCode = ValidationTypeName | (string & {});
+
+/**
+ * Structured description of a single constraint failed by a validated value.
+ */
+export interface ValidationIssue {
+
+    /**
+     * Type of the failed constraint, the same as its key in ValidationError.constraints (e.g. "minLength").
+     */
+    code: ValidationIssueCode;
+
+    /**
+     * Error message of the failed constraint.
+     */
+    message: string;
+
+    /**
+     * Constraints set by the validation type (e.g. [8] for @MinLength(8)).
+     */
+    constraints: any[];
+
+    /**
+     * Value that haven't pass the constraint.
+     *
+     * OPTIONAL - configurable via the ValidatorOptions.validationError.value option
+     */
+    value?: any;
+
+    /**
+     * Path to the value that haven't pass the constraint.
+     */
+    path: string;
+
+}
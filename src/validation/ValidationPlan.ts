@@ -0,0 +1,161 @@
+import {ValidationMetadata} from "../metadata/ValidationMetadata";
+import {ValidationTypes} from "./ValidationTypes";
+
+/**
+ * Validation metadatas of the single property, prepared in the order they are performed.
+ */
+export interface PropertyValidationPlan {
+
+    /**
+     * All metadatas of the property, sorted by their priority.
+     */
+    metadatas: ValidationMetadata[];
+
+    /**
+     * Conversions of the property, string normalizations (e.g. @Trim) go before type conversions (e.g. @ToInt).
+     */
+    conversionMetadatas: ValidationMetadata[];
+
+    /**
+     * Conversions performed by the type checkers when implicit conversion is enabled,
+     * except the ones the property is converted by explicitly.
+     */
+    implicitConversionMetadatas: ValidationMetadata[];
+
+    /**
+     * Validations of the value presence (e.g. @IsDefined), which are not skipped for the missing values.
+     */
+    definedMetadatas: ValidationMetadata[];
+
+    /**
+     * Conditions of the property (e.g. @ValidateIf).
+     */
+    conditionalMetadatas: ValidationMetadata[];
+
+    /**
+     * Remaining validations of the property, including custom, nested and promise ones.
+     */
+    validationMetadatas: ValidationMetadata[];
+
+    /**
+     * Custom validations of the property.
+     */
+    customMetadatas: ValidationMetadata[];
+
+    /**
+     * Indicates if property is validated with @ValidatePromise.
+     */
+    hasPromiseValidation: boolean;
+
+}
+
+/**
+ * Validation metadatas of the class or schema prepared for validation, so they are not filtered, grouped and sorted
+ * for each validated object. Plans are cached by the MetadataStorage until new metadata is added.
+ */
+export class ValidationPlan {
+
+    // -------------------------------------------------------------------------
+    // Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Class-level validations.
+     */
+    readonly classMetadatas: ValidationMetadata[];
+
+    /**
+     * Validations of the properties, grouped by the property names.
+     */
+    readonly properties: { [propertyName: string]: PropertyValidationPlan } = {};
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(readonly metadatas: ValidationMetadata[]) {
+        this.classMetadatas = metadatas.filter(metadata => metadata.type === ValidationTypes.CLASS_VALIDATION);
+
+        const groupedMetadatas: { [propertyName: string]: ValidationMetadata[] } = {};
+        metadatas
+            .filter(metadata => metadata.type !== ValidationTypes.CLASS_VALIDATION)
+            .forEach(metadata => {
+                if (!groupedMetadatas[metadata.propertyName])
+                    groupedMetadatas[metadata.propertyName] = [];
+                groupedMetadatas[metadata.propertyName].push(metadata);
+            });
+        Object.keys(groupedMetadatas).forEach(propertyName => {
+            this.properties[propertyName] = ValidationPlan.createPropertyPlan(groupedMetadatas[propertyName]);
+        });
+    }
+
+    // -------------------------------------------------------------------------
+    // Static Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Prepares the given metadatas of the single property for validation.
+     */
+    static createPropertyPlan(metadatas: ValidationMetadata[]): PropertyValidationPlan {
+        const sortedMetadatas = this.sortByPriority(metadatas);
+        const conversionMetadatas = this.sortConversions(sortedMetadatas.filter(metadata => ValidationTypes.isConversion(metadata.type)));
+        const implicitConversionMetadatas = sortedMetadatas
+            .filter(metadata => {
+                const conversionType = ValidationTypes.getImplicitConversionType(metadata.type);
+                return !!conversionType && !conversionMetadatas.some(conversionMetadata => conversionMetadata.type === conversionType);
+            })
+            .map(metadata => Object.assign(Object.create(metadata), { type: ValidationTypes.getImplicitConversionType(metadata.type) }));
+        const performedMetadatas = sortedMetadatas.filter(metadata => {
+            return !this.isPresenceValidation(metadata) &&
+                metadata.type !== ValidationTypes.WHITELIST &&
+                !ValidationTypes.isConversion(metadata.type);
+        });
+
+        return {
+            metadatas: sortedMetadatas,
+            conversionMetadatas: conversionMetadatas,
+            implicitConversionMetadatas: implicitConversionMetadatas,
+            definedMetadatas: sortedMetadatas.filter(metadata => this.isPresenceValidation(metadata)),
+            conditionalMetadatas: performedMetadatas.filter(metadata => metadata.type === ValidationTypes.CONDITIONAL_VALIDATION),
+            validationMetadatas: performedMetadatas.filter(metadata => metadata.type !== ValidationTypes.CONDITIONAL_VALIDATION),
+            customMetadatas: performedMetadatas.filter(metadata => metadata.type === ValidationTypes.CUSTOM_VALIDATION),
+            hasPromiseValidation: performedMetadatas.some(metadata => metadata.type === ValidationTypes.PROMISE_VALIDATION)
+        };
+    }
+
+    // -------------------------------------------------------------------------
+    // Private Static Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Validations are performed in ascending order of their priority, ones of the same priority in order they are registered.
+     */
+    private static sortByPriority(metadatas: ValidationMetadata[]): ValidationMetadata[] {
+        const getPriority = (metadata: ValidationMetadata) => {
+            return metadata.priority !== undefined && metadata.priority !== null ? metadata.priority : ValidationTypes.getDefaultPriority(metadata.type);
+        };
+        return metadatas
+            .map((metadata, index) => ({ metadata: metadata, index: index }))
+            .sort((entryA, entryB) => getPriority(entryA.metadata) - getPriority(entryB.metadata) || entryA.index - entryB.index)
+            .map(entry => entry.metadata);
+    }
+
+    /**
+     * String normalizations (e.g. @Trim) are performed before type conversions (e.g. @ToInt).
+     */
+    private static sortConversions(metadatas: ValidationMetadata[]): ValidationMetadata[] {
+        const isNormalization = (metadata: ValidationMetadata) => metadata.type === ValidationTypes.TRIM || metadata.type === ValidationTypes.TO_LOWER_CASE;
+        return metadatas.filter(isNormalization).concat(metadatas.filter(metadata => !isNormalization(metadata)));
+    }
+
+    /**
+     * Checks if metadata validates presence of the value, such validations are not skipped for the missing values.
+     */
+    private static isPresenceValidation(metadata: ValidationMetadata): boolean {
+        return metadata.type === ValidationTypes.IS_DEFINED ||
+            metadata.type === ValidationTypes.REQUIRED_IF ||
+            metadata.type === ValidationTypes.REQUIRED_WITH ||
+            metadata.type === ValidationTypes.REQUIRED_WITHOUT;
+    }
+
+}
@@ -6,3 +6,38 @@ export interface IsNumberOptions {
     allowInfinity?: boolean;
     maxDecimalPlaces?: number;
 }
+
+/**
+ * Discriminator used to select class nested object is validated with.
+ */
+export interface NestedDiscriminatorOptions {
+    /**
+     * Property of the nested object holding the discriminator value, e.g. "type".
+     */
+    property: string;
+
+    /**
+     * Classes selected by the discriminator values.
+     */
+    subTypes: { name: any, value: Function }[];
+}
+
+/**
+ * Options of the nested validation.
+ */
+export interface NestedValidationTypeOptions {
+    /**
+     * Name of the validation schema used to validate nested objects.
+     */
+    schema?: string;
+
+    /**
+     * Discriminator used to select class nested objects are validated with.
+     */
+    discriminator?: NestedDiscriminatorOptions;
+
+    /**
+     * Returns class nested plain objects are validated with.
+     */
+    type?: () => Function;
+}
@@ -1,9 +1,17 @@
 import {ValidationArguments} from "./ValidationArguments";
+import {MessageFormatter} from "../message-catalog/MessageFormatter";
 
 export class ValidationUtils {
 
+    /**
+     * Replaces "$property", "$value", "$target" and "$constraintN" tokens of the message.
+     * Messages of the catalogs are formatted as ICU-style messages first, other messages are left intact,
+     * so existing messages containing braces aren't changed.
+     */
     static replaceMessageSpecialTokens(message: string|((args: ValidationArguments) => string),
-                                validationArguments: ValidationArguments): string {
+                                validationArguments: ValidationArguments,
+                                locale?: string,
+                                isCatalogMessage: boolean = false): string {
 
         let messageString: string;
         if (message instanceof Function) {
@@ -13,6 +21,9 @@ export class ValidationUtils {
             messageString = message as string;
         }
 
+        if (messageString && isCatalogMessage)
+            messageString = MessageFormatter.format(messageString, this.getMessageFormatArguments(validationArguments), locale);
+
         if (messageString && validationArguments.constraints instanceof Array) {
             validationArguments.constraints.forEach((constraint, index) => {
                 messageString = messageString.replace(new RegExp(`\\$constraint${index + 1}`, "g"), constraint);
@@ -28,5 +39,35 @@ export class ValidationUtils {
 
         return messageString;
     }
-    
+
+    /**
+     * Gets arguments available in ICU-style message placeholders, e.g. "{property}" or "{constraint1}".
+     */
+    static getMessageFormatArguments(validationArguments: ValidationArguments): { [name: string]: any } {
+        const args: { [name: string]: any } = {
+            property: validationArguments.property,
+            target: validationArguments.targetName,
+            value: validationArguments.value
+        };
+        (validationArguments.constraints || []).forEach((constraint, index) => args[`constraint${index + 1}`] = constraint);
+        return args;
+    }
+
+    /**
+     * Appends property name (or index of the collection item) to the dotted path, e.g. "orders[3].items".
+     */
+    static appendPath(path: string, property: string, isIndex: boolean = false): string {
+        if (isIndex)
+            return `${path}[${property}]`;
+
+        return path ? `${path}.${property}` : property;
+    }
+
+    /**
+     * Appends reference token to the JSON Pointer (RFC 6901), e.g. "/orders/3/items".
+     */
+    static appendPointer(pointer: string, token: string): string {
+        return `${pointer}/${token.replace(/~/g, "~0").replace(/\//g, "~1")}`;
+    }
+
 }
\ No newline at end of file
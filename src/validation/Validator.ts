@@ -1,10 +1,15 @@
 import {ValidationMetadata} from "../metadata/ValidationMetadata";
-import {ValidationTypes} from "./ValidationTypes";
 import {ValidationError} from "./ValidationError";
 import {IsNumberOptions} from "./ValidationTypeOptions";
 import {ValidatorOptions} from "./ValidatorOptions";
 import {ValidationExecutor} from "./ValidationExecutor";
+import {CompiledValidator, ValidatorCompiler} from "./ValidatorCompiler";
 import {ValidationOptions} from "../decorator/ValidationOptions";
+import {ValidationArguments} from "./ValidationArguments";
+import {ConstraintRegistry} from "./ConstraintRegistry";
+import {MetadataStorage} from "../metadata/MetadataStorage";
+import {getFromContainer} from "../container";
+import {getValueByPath} from "../utils";
 import * as validator from "validator";
 
 /**
@@ -17,6 +22,7 @@ export class Validator {
     // -------------------------------------------------------------------------
 
     private validatorJs = validator;
+    private constraintRegistry = getFromContainer(ConstraintRegistry);
     private libPhoneNumber = {
         phoneUtil: require("google-libphonenumber").PhoneNumberUtil.getInstance(),
     };
@@ -30,20 +36,35 @@ export class Validator {
         return true;
     };
 
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
     /**
-     * Performs validation of the given object based on decorators or validation schema.
+     * Creates validator performing validations registered in the given metadata storage,
+     * by default in the storage from the container.
+     */
+    constructor(readonly metadataStorage: MetadataStorage = getFromContainer(MetadataStorage)) {
+    }
+
+    /**
+     * Performs validation of the given object based on decorators, validation schema or decorators of the given class.
      * Common method for `validateOrReject` and `validate` methods.
      */
-    private coreValidate(objectOrSchemaName: Object|string, objectOrValidationOptions: Object|ValidationOptions, maybeValidatorOptions?: ValidatorOptions): Promise<ValidationError[]> {
-        const object = typeof objectOrSchemaName === "string" ? objectOrValidationOptions as Object : objectOrSchemaName as Object;
-        const options = typeof objectOrSchemaName === "string" ? maybeValidatorOptions : objectOrValidationOptions as ValidationOptions;
-        const schema = typeof objectOrSchemaName === "string" ? objectOrSchemaName as string : undefined;
+    private coreValidate(objectOrSchemaNameOrClass: Object|string|Function,
+                         objectOrValidationOptions: Object|ValidationOptions,
+                         maybeValidatorOptions?: ValidatorOptions): Promise<ValidationError[]> {
+        const isObjectArgument = typeof objectOrSchemaNameOrClass !== "string" && !(objectOrSchemaNameOrClass instanceof Function);
+        const object = isObjectArgument ? objectOrSchemaNameOrClass as Object : objectOrValidationOptions as Object;
+        const options = isObjectArgument ? objectOrValidationOptions as ValidationOptions : maybeValidatorOptions;
+        const schema = typeof objectOrSchemaNameOrClass === "string" ? objectOrSchemaNameOrClass as string : undefined;
+        const targetClass = objectOrSchemaNameOrClass instanceof Function ? objectOrSchemaNameOrClass as Function : undefined;
 
         const executor = new ValidationExecutor(this, options);
         const validationErrors: ValidationError[] = [];
-        executor.execute(object, schema, validationErrors);
+        executor.execute(object, schema, validationErrors, undefined, undefined, targetClass);
 
-        return Promise.all(executor.awaitingPromises).then(() => {
+        return executor.awaitPromises().then(() => {
             return executor.stripEmptyErrors(validationErrors);
         });
     }
@@ -63,10 +84,50 @@ export class Validator {
     validate(schemaName: string, object: Object, options?: ValidatorOptions): Promise<ValidationError[]>;
 
     /**
-     * Performs validation of the given object based on decorators or validation schema.
+     * Performs validation of the given object (e.g. plain object parsed from JSON) based on decorators used in given class.
+     * Nested plain objects are validated based on decorators of their declared types.
+     */
+    validate(targetClass: Function, object: Object, options?: ValidatorOptions): Promise<ValidationError[]>;
+
+    /**
+     * Performs validation of the given object based on decorators, validation schema or decorators of the given class.
+     */
+    validate(objectOrSchemaNameOrClass: Object|string|Function,
+             objectOrValidationOptions: Object|ValidationOptions,
+             maybeValidatorOptions?: ValidatorOptions): Promise<ValidationError[]> {
+        return this.coreValidate(objectOrSchemaNameOrClass, objectOrValidationOptions, maybeValidatorOptions);
+    }
+
+    /**
+     * Performs validation of the given plain object based on decorators used in given class.
+     * Nested plain objects are validated based on decorators of their declared types.
+     */
+    validatePlain(targetClass: Function, object: Object, options?: ValidatorOptions): Promise<ValidationError[]> {
+        return this.coreValidate(targetClass, object, options);
+    }
+
+    /**
+     * Performs validation of the given object's property based on decorators used in given object class.
+     * Nested properties can be validated using their paths, e.g. "address.zip".
+     */
+    validateProperty(object: Object, property: string, options?: ValidatorOptions): Promise<ValidationError[]>;
+
+    /**
+     * Performs validation of the given object's property based on validation schema.
+     */
+    validateProperty(schemaName: string, object: Object, property: string, options?: ValidatorOptions): Promise<ValidationError[]>;
+
+    /**
+     * Performs validation of the given object's property based on decorators or validation schema.
      */
-    validate(objectOrSchemaName: Object|string, objectOrValidationOptions: Object|ValidationOptions, maybeValidatorOptions?: ValidatorOptions): Promise<ValidationError[]> {
-        return this.coreValidate(objectOrSchemaName, objectOrValidationOptions, maybeValidatorOptions);
+    validateProperty(objectOrSchemaName: Object|string, objectOrProperty: Object|string, propertyOrOptions?: string|ValidatorOptions, maybeOptions?: ValidatorOptions): Promise<ValidationError[]> {
+        if (typeof objectOrSchemaName === "string") {
+            const options = Object.assign({}, maybeOptions, { properties: [propertyOrOptions as string] });
+            return this.coreValidate(objectOrSchemaName, objectOrProperty as Object, options);
+        }
+
+        const options = Object.assign({}, propertyOrOptions as ValidatorOptions, { properties: [objectOrProperty as string] });
+        return this.coreValidate(objectOrSchemaName, options);
     }
 
     /**
@@ -80,10 +141,17 @@ export class Validator {
     validateOrReject(schemaName: string, object: Object, options?: ValidatorOptions): Promise<void>;
 
     /**
-     * Performs validation of the given object based on decorators or validation schema and reject on error.
+     * Performs validation of the given object based on decorators used in given class and reject on error.
      */
-    async validateOrReject(objectOrSchemaName: Object|string, objectOrValidationOptions: Object|ValidationOptions, maybeValidatorOptions?: ValidatorOptions): Promise<void> {
-        const errors = await this.coreValidate(objectOrSchemaName, objectOrValidationOptions, maybeValidatorOptions);
+    validateOrReject(targetClass: Function, object: Object, options?: ValidatorOptions): Promise<void>;
+
+    /**
+     * Performs validation of the given object based on decorators, validation schema or decorators of the given class and reject on error.
+     */
+    async validateOrReject(objectOrSchemaNameOrClass: Object|string|Function,
+                           objectOrValidationOptions: Object|ValidationOptions,
+                           maybeValidatorOptions?: ValidatorOptions): Promise<void> {
+        const errors = await this.coreValidate(objectOrSchemaNameOrClass, objectOrValidationOptions, maybeValidatorOptions);
         if (errors.length)
             return Promise.reject(errors);
     }
@@ -100,199 +168,58 @@ export class Validator {
     validateSync(schemaName: string, object: Object, options?: ValidatorOptions): ValidationError[];
 
     /**
-     * Performs validation of the given object based on decorators or validation schema.
+     * Performs validation of the given object based on decorators used in given class.
+     * NOTE: This method completely ignores all async validations.
+     */
+    validateSync(targetClass: Function, object: Object, options?: ValidatorOptions): ValidationError[];
+
+    /**
+     * Performs validation of the given object based on decorators, validation schema or decorators of the given class.
      */
-    validateSync(objectOrSchemaName: Object|string, objectOrValidationOptions: Object|ValidationOptions, maybeValidatorOptions?: ValidatorOptions): ValidationError[] {
-        const object = typeof objectOrSchemaName === "string" ? objectOrValidationOptions as Object : objectOrSchemaName as Object;
-        const options = typeof objectOrSchemaName === "string" ? maybeValidatorOptions : objectOrValidationOptions as ValidationOptions;
-        const schema = typeof objectOrSchemaName === "string" ? objectOrSchemaName as string : undefined;
+    validateSync(objectOrSchemaNameOrClass: Object|string|Function,
+                 objectOrValidationOptions: Object|ValidationOptions,
+                 maybeValidatorOptions?: ValidatorOptions): ValidationError[] {
+        const isObjectArgument = typeof objectOrSchemaNameOrClass !== "string" && !(objectOrSchemaNameOrClass instanceof Function);
+        const object = isObjectArgument ? objectOrSchemaNameOrClass as Object : objectOrValidationOptions as Object;
+        const options = isObjectArgument ? objectOrValidationOptions as ValidationOptions : maybeValidatorOptions;
+        const schema = typeof objectOrSchemaNameOrClass === "string" ? objectOrSchemaNameOrClass as string : undefined;
+        const targetClass = objectOrSchemaNameOrClass instanceof Function ? objectOrSchemaNameOrClass as Function : undefined;
 
         const executor = new ValidationExecutor(this, options);
         executor.ignoreAsyncValidations = true;
         const validationErrors: ValidationError[] = [];
-        executor.execute(object, schema, validationErrors);
+        executor.execute(object, schema, validationErrors, undefined, undefined, targetClass);
         return executor.stripEmptyErrors(validationErrors);
     }
 
     /**
-     * Performs validation of the given object based on the given ValidationMetadata object.
-     */
-    validateValueByMetadata(value: any, metadata: ValidationMetadata): boolean {
-        switch (metadata.type) {
-            /* common checkers */
-            case ValidationTypes.IS_DEFINED:
-                return this.isDefined(value);
-            case ValidationTypes.EQUALS:
-                return this.equals(value, metadata.constraints[0]);
-            case ValidationTypes.NOT_EQUALS:
-                return this.notEquals(value, metadata.constraints[0]);
-            case ValidationTypes.IS_EMPTY:
-                return this.isEmpty(value);
-            case ValidationTypes.IS_NOT_EMPTY:
-                return this.isNotEmpty(value);
-            case ValidationTypes.IS_IN:
-                return this.isIn(value, metadata.constraints[0]);
-            case ValidationTypes.IS_NOT_IN:
-                return this.isNotIn(value, metadata.constraints[0]);
-
-            /* type checkers */
-            case ValidationTypes.IS_LATLONG:
-                return this.isLatLong(value);
-            case ValidationTypes.IS_LATITUDE:
-                return this.isLatitude(value);
-            case ValidationTypes.IS_LONGITUDE:
-                return this.isLongitude(value);
-            case ValidationTypes.IS_BOOLEAN:
-                return this.isBoolean(value);
-            case ValidationTypes.IS_DATE:
-                return this.isDate(value);
-            case ValidationTypes.IS_STRING:
-                return this.isString(value);
-            case ValidationTypes.IS_DATE_STRING:
-                return this.isDateString(value);
-            case ValidationTypes.IS_ARRAY:
-                return this.isArray(value);
-            case ValidationTypes.IS_NUMBER:
-                return this.isNumber(value, metadata.constraints[0]);
-            case ValidationTypes.IS_INT:
-                return this.isInt(value);
-            case ValidationTypes.IS_ENUM:
-                return this.isEnum(value, metadata.constraints[0]);
-
-            /* number checkers */
-            case ValidationTypes.IS_DIVISIBLE_BY:
-                return this.isDivisibleBy(value, metadata.constraints[0]);
-            case ValidationTypes.IS_POSITIVE:
-                return this.isPositive(value);
-            case ValidationTypes.IS_NEGATIVE:
-                return this.isNegative(value);
-            case ValidationTypes.MIN:
-                return this.min(value, metadata.constraints[0]);
-            case ValidationTypes.MAX:
-                return this.max(value, metadata.constraints[0]);
-
-            /* date checkers */
-            case ValidationTypes.MIN_DATE:
-                return this.minDate(value, metadata.constraints[0]);
-            case ValidationTypes.MAX_DATE:
-                return this.maxDate(value, metadata.constraints[0]);
-
-            /* string-as-type checkers */
-            case ValidationTypes.IS_BOOLEAN_STRING:
-                return this.isBooleanString(value);
-            case ValidationTypes.IS_NUMBER_STRING:
-                return this.isNumberString(value);
-
-            /* string checkers */
-            case ValidationTypes.CONTAINS:
-                return this.contains(value, metadata.constraints[0]);
-            case ValidationTypes.NOT_CONTAINS:
-                return this.notContains(value, metadata.constraints[0]);
-            case ValidationTypes.IS_ALPHA:
-                return this.isAlpha(value, metadata.constraints[0]);
-            case ValidationTypes.IS_ALPHANUMERIC:
-                return this.isAlphanumeric(value, metadata.constraints[0]);
-            case ValidationTypes.IS_DECIMAL:
-                return this.isDecimal(value, metadata.constraints[0]);
-            case ValidationTypes.IS_ASCII:
-                return this.isAscii(value);
-            case ValidationTypes.IS_BASE64:
-                return this.isBase64(value);
-            case ValidationTypes.IS_BYTE_LENGTH:
-                return this.isByteLength(value, metadata.constraints[0], metadata.constraints[1]);
-            case ValidationTypes.IS_CREDIT_CARD:
-                return this.isCreditCard(value);
-            case ValidationTypes.IS_CURRENCY:
-                return this.isCurrency(value, metadata.constraints[0]);
-            case ValidationTypes.IS_EMAIL:
-                return this.isEmail(value, metadata.constraints[0]);
-            case ValidationTypes.IS_FQDN:
-                return this.isFQDN(value, metadata.constraints[0]);
-            case ValidationTypes.IS_FULL_WIDTH:
-                return this.isFullWidth(value);
-            case ValidationTypes.IS_HALF_WIDTH:
-                return this.isHalfWidth(value);
-            case ValidationTypes.IS_VARIABLE_WIDTH:
-                return this.isVariableWidth(value);
-            case ValidationTypes.IS_HEX_COLOR:
-                return this.isHexColor(value);
-            case ValidationTypes.IS_HEXADECIMAL:
-                return this.isHexadecimal(value);
-            case ValidationTypes.IS_MAC_ADDRESS:
-                return this.isMACAddress(value);
-            case ValidationTypes.IS_IP:
-                return this.isIP(value, metadata.constraints[0]);
-            case ValidationTypes.IS_PORT:
-                return this.isPort(value);
-            case ValidationTypes.IS_ISBN:
-                return this.isISBN(value, metadata.constraints[0]);
-            case ValidationTypes.IS_ISIN:
-                return this.isISIN(value);
-            case ValidationTypes.IS_ISO8601:
-                return this.isISO8601(value, metadata.constraints[0]);
-            case ValidationTypes.IS_JSON:
-                return this.isJSON(value);
-            case ValidationTypes.IS_JWT:
-                return this.isJWT(value);
-            case ValidationTypes.IS_OBJECT:
-                return this.isObject(value);
-            case ValidationTypes.IS_NOT_EMPTY_OBJECT:
-                return this.isNotEmptyObject(value);
-            case ValidationTypes.IS_LOWERCASE:
-                return this.isLowercase(value);
-            case ValidationTypes.IS_MOBILE_PHONE:
-                return this.isMobilePhone(value, metadata.constraints[0]);
-            case ValidationTypes.IS_PHONE_NUMBER:
-                return this.isPhoneNumber(value, metadata.constraints[0]);
-            case ValidationTypes.IS_ISO31661_ALPHA_2:
-                return this.isISO31661Alpha2(value);
-            case ValidationTypes.IS_ISO31661_ALPHA_3:
-                return this.isISO31661Alpha3(value);
-            case ValidationTypes.IS_MONGO_ID:
-                return this.isMongoId(value);
-            case ValidationTypes.IS_MULTIBYTE:
-                return this.isMultibyte(value);
-            case ValidationTypes.IS_SURROGATE_PAIR:
-                return this.isSurrogatePair(value);
-            case ValidationTypes.IS_URL:
-                return this.isURL(value, metadata.constraints[0]);
-            case ValidationTypes.IS_UUID:
-                return this.isUUID(value, metadata.constraints[0]);
-            case ValidationTypes.IS_UPPERCASE:
-                return this.isUppercase(value);
-            case ValidationTypes.LENGTH:
-                return this.length(value, metadata.constraints[0], metadata.constraints[1]);
-            case ValidationTypes.MIN_LENGTH:
-                return this.minLength(value, metadata.constraints[0]);
-            case ValidationTypes.MAX_LENGTH:
-                return this.maxLength(value, metadata.constraints[0]);
-            case ValidationTypes.MATCHES:
-                return this.matches(value, metadata.constraints[0], metadata.constraints[1]);
-            case ValidationTypes.IS_MILITARY_TIME:
-                return this.isMilitaryTime(value);
-            case ValidationTypes.IS_HASH:
-                return this.isHash(value, metadata.constraints[0]);
-            case ValidationTypes.IS_ISSN:
-                return this.isISSN(value, metadata.constraints[0]);
-
-            /* array checkers */
-            case ValidationTypes.ARRAY_CONTAINS:
-                return this.arrayContains(value, metadata.constraints[0]);
-            case ValidationTypes.ARRAY_NOT_CONTAINS:
-                return this.arrayNotContains(value, metadata.constraints[0]);
-            case ValidationTypes.ARRAY_NOT_EMPTY:
-                return this.arrayNotEmpty(value);
-            case ValidationTypes.ARRAY_MIN_SIZE:
-                return this.arrayMinSize(value, metadata.constraints[0]);
-            case ValidationTypes.ARRAY_MAX_SIZE:
-                return this.arrayMaxSize(value, metadata.constraints[0]);
-            case ValidationTypes.ARRAY_UNIQUE:
-                return this.arrayUnique(value);
-
-            case ValidationTypes.IS_INSTANCE:
-                return this.isInstance(value, metadata.constraints[0]);
-        }
-        return true;
+     * Compiles validator of the given class into the function specialised for its metadatas,
+     * which validates objects the same way as validateSync does with the given options.
+     * Options and registered constraints are resolved when validator is compiled.
+     */
+    compile(targetClass: Function, options?: ValidatorOptions): CompiledValidator {
+        return new ValidatorCompiler(this, options).compile(targetClass);
+    }
+
+    /**
+     * Performs validation of the given value based on the given ValidationMetadata object,
+     * using constraint of the metadata type registered in the ConstraintRegistry.
+     * Returns a promise if the constraint is async.
+     */
+    validateValueByMetadata(value: any, metadata: ValidationMetadata, object?: Object, context?: any): boolean | Promise<boolean> {
+        const definition = this.constraintRegistry.get(metadata.type);
+        if (!definition)
+            return true;
+
+        const validationArguments: ValidationArguments = {
+            targetName: object && object.constructor ? (object.constructor as any).name : undefined,
+            property: metadata.propertyName,
+            object: object,
+            value: value,
+            constraints: metadata.constraints || [],
+            context: context
+        };
+        return definition.validate(value, validationArguments, this);
     }
 
     // -------------------------------------------------------------------------
@@ -348,6 +275,76 @@ export class Validator {
         return !(possibleValues instanceof Array) || !possibleValues.some(possibleValue => possibleValue === value);
     }
 
+    // -------------------------------------------------------------------------
+    // Validation Methods: cross-field checkers
+    // -------------------------------------------------------------------------
+
+    /**
+     * Checks if value is equal to the value of the object's property with the given path.
+     * Numbers, strings and dates are compared by their values.
+     */
+    equalsProperty(value: unknown, object: Object, property: string): boolean {
+        const comparison = getValueByPath(object, property);
+        return value === comparison || this.compareValues(value, comparison) === 0;
+    }
+
+    /**
+     * Checks if value is not equal to the value of the object's property with the given path.
+     */
+    notEqualsProperty(value: unknown, object: Object, property: string): boolean {
+        return !this.equalsProperty(value, object, property);
+    }
+
+    /**
+     * Checks if value is greater than the value of the object's property with the given path.
+     * Only numbers, strings and dates of the same type can be compared.
+     */
+    greaterThanProperty(value: unknown, object: Object, property: string): boolean {
+        return this.compareValues(value, getValueByPath(object, property)) > 0;
+    }
+
+    /**
+     * Checks if value is greater than or equal to the value of the object's property with the given path.
+     */
+    greaterThanOrEqualProperty(value: unknown, object: Object, property: string): boolean {
+        return this.compareValues(value, getValueByPath(object, property)) >= 0;
+    }
+
+    /**
+     * Checks if value is less than the value of the object's property with the given path.
+     */
+    lessThanProperty(value: unknown, object: Object, property: string): boolean {
+        return this.compareValues(value, getValueByPath(object, property)) < 0;
+    }
+
+    /**
+     * Checks if value is less than or equal to the value of the object's property with the given path.
+     */
+    lessThanOrEqualProperty(value: unknown, object: Object, property: string): boolean {
+        return this.compareValues(value, getValueByPath(object, property)) <= 0;
+    }
+
+    /**
+     * Checks if value is not empty when the object's property with the given path is equal ("===") to the comparison.
+     */
+    requiredIf(value: unknown, object: Object, property: string, comparison: unknown): boolean {
+        return getValueByPath(object, property) !== comparison || this.isNotEmpty(value);
+    }
+
+    /**
+     * Checks if value is not empty when any of the object's properties with the given paths is not empty.
+     */
+    requiredWith(value: unknown, object: Object, properties: string[]): boolean {
+        return !properties.some(property => this.isNotEmpty(getValueByPath(object, property))) || this.isNotEmpty(value);
+    }
+
+    /**
+     * Checks if value is not empty when any of the object's properties with the given paths is empty.
+     */
+    requiredWithout(value: unknown, object: Object, properties: string[]): boolean {
+        return !properties.some(property => this.isEmpty(getValueByPath(object, property))) || this.isNotEmpty(value);
+    }
+
     // -------------------------------------------------------------------------
     // Validation Methods: type checkers
     // -------------------------------------------------------------------------
@@ -979,4 +976,22 @@ export class Validator {
             && object instanceof targetTypeConstructor;
     }
 
+    // -------------------------------------------------------------------------
+    // Private Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Compares numbers, strings and dates. Returns NaN if values are of different types and can't be compared.
+     */
+    private compareValues(value: unknown, comparison: unknown): number {
+        if (value instanceof Date && comparison instanceof Date)
+            return value.getTime() - comparison.getTime();
+        if (typeof value === "number" && typeof comparison === "number")
+            return value - comparison;
+        if (typeof value === "string" && typeof comparison === "string")
+            return value < comparison ? -1 : value > comparison ? 1 : 0;
+
+        return NaN;
+    }
+
 }
@@ -0,0 +1,287 @@
+import {Validator} from "./Validator";
+import {ValidatorOptions} from "./ValidatorOptions";
+import {ValidationError} from "./ValidationError";
+import {ValidationExecutor} from "./ValidationExecutor";
+import {CompiledExecutionContext} from "./CompiledExecutionContext";
+import {ValidationMetadata} from "../metadata/ValidationMetadata";
+import {PropertyValidationPlan, ValidationPlan} from "./ValidationPlan";
+import {ValidationTypes} from "./ValidationTypes";
+import {ValidationUtils} from "./ValidationUtils";
+import {ConstraintRegistry} from "./ConstraintRegistry";
+import {ConstraintDefinition} from "./ConstraintDefinition";
+import {getFromContainer} from "../container";
+
+/**
+ * Validates the given object of the compiled class and returns its errors, the same way as Validator.validateSync does.
+ */
+export type CompiledValidator = (object: Object) => ValidationError[];
+
+/**
+ * Validates properties of the given object with the given executor context, adding their errors to the given errors.
+ */
+export type CompiledExecution = (executor: CompiledExecutionContext,
+                                 object: Object,
+                                 validationErrors: ValidationError[],
+                                 parentPath: string,
+                                 parentPointer: string) => void;
+
+/**
+ * Gets reference to the member of the executor context in the generated code.
+ */
+function member(name: keyof CompiledExecutionContext): string {
+    return "executor." + name;
+}
+
+/**
+ * Compiles validation plans of the classes into JavaScript functions specialised for their metadatas (similar to what ajv
+ * does for JSON Schema). Validator options are resolved and built-in constraints are looked up once, when class is compiled,
+ * and the built-in constraints are called directly. Custom, nested and registered constraints, conversions and collection
+ * item errors are delegated to the ValidationExecutor through the CompiledExecutionContext, so compiled validators produce
+ * the same errors as the interpreted validation. Classes with class-level validations, or validated with whitelist,
+ * properties, forbidUnknownValues or stopAtFirstInvalidProperty options, aren't compiled and are validated by the executor.
+ */
+export class ValidatorCompiler {
+
+    // -------------------------------------------------------------------------
+    // Private Properties
+    // -------------------------------------------------------------------------
+
+    private constraintRegistry = getFromContainer(ConstraintRegistry);
+    private options: ValidatorOptions = this.validatorOptions || {};
+
+    /**
+     * Compiled executions of the classes along with the plans they are compiled from, so classes are compiled again
+     * when their metadatas are changed. Execution is undefined if class is validated by the executor.
+     */
+    private executions = new Map<Function, { plan: ValidationPlan, execution: CompiledExecution }>();
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(private validator: Validator,
+                private validatorOptions?: ValidatorOptions) {
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Compiles validator of the given class. Objects nested in the validated objects are validated by the compiled
+     * validators of their classes as well. Async validations are ignored, as they are by Validator.validateSync.
+     */
+    compile(targetClass: Function): CompiledValidator {
+        this.getExecution(targetClass);
+        return (object: Object) => {
+            const executor = new ValidationExecutor(this.validator, this.validatorOptions);
+            executor.ignoreAsyncValidations = true;
+            executor.compiler = this;
+            const validationErrors: ValidationError[] = [];
+            executor.execute(object, undefined, validationErrors, undefined, undefined, targetClass);
+            return executor.stripEmptyErrors(validationErrors);
+        };
+    }
+
+    /**
+     * Gets compiled execution of the given class, or undefined if the class is validated by the executor.
+     */
+    getExecution(targetConstructor: Function): CompiledExecution {
+        const plan = this.validator.metadataStorage.getValidationPlan(targetConstructor, undefined, this.options.groups);
+        let compiled = this.executions.get(targetConstructor);
+        if (!compiled || compiled.plan !== plan) {
+            compiled = { plan: plan, execution: this.canCompile(plan) ? this.createExecution(plan) : undefined };
+            this.executions.set(targetConstructor, compiled);
+        }
+        return compiled.execution;
+    }
+
+    /**
+     * Generates source code of the execution of the given class, e.g. to see which validations are specialised.
+     * Returns undefined if the class is validated by the executor.
+     */
+    generateSource(targetConstructor: Function): string {
+        const plan = this.validator.metadataStorage.getValidationPlan(targetConstructor, undefined, this.options.groups);
+        return this.canCompile(plan) ? this.generate(plan).source : undefined;
+    }
+
+    // -------------------------------------------------------------------------
+    // Private Methods
+    // -------------------------------------------------------------------------
+
+    private canCompile(plan: ValidationPlan): boolean {
+        const options = this.options;
+        return !options.whitelist &&
+            !options.properties &&
+            !options.stopAtFirstInvalidProperty &&
+            !(options.forbidUnknownValues && !plan.metadatas.length) &&
+            !plan.classMetadatas.length;
+    }
+
+    private createExecution(plan: ValidationPlan): CompiledExecution {
+        const generated = this.generate(plan);
+        const createExecution = new Function("validator", "ValidationUtils", "metadatas", "definitions", "plans", generated.source);
+        return createExecution(this.validator, ValidationUtils, generated.metadatas, generated.definitions, generated.plans);
+    }
+
+    /**
+     * Generates source of the function, which creates execution from the referenced metadatas, built-in constraints
+     * of the metadatas and plans of the properties.
+     */
+    private generate(plan: ValidationPlan) {
+        const metadatas: ValidationMetadata[] = [];
+        const definitions: ConstraintDefinition[] = [];
+        const plans: PropertyValidationPlan[] = [];
+        const declarations: string[] = [];
+        const body: string[] = [];
+
+        const reference = (metadata: ValidationMetadata): number => {
+            const index = metadatas.length;
+            metadatas.push(metadata);
+            definitions.push(this.constraintRegistry.isBuiltin(metadata.type) ? this.constraintRegistry.get(metadata.type) : undefined);
+            declarations.push(`var m${index} = metadatas[${index}], d${index} = definitions[${index}], ` +
+                `c${index} = m${index}.constraints || [], l${index} = [m${index}];`);
+            return index;
+        };
+        Object.keys(plan.properties).forEach(propertyName => {
+            const index = plans.length;
+            plans.push(plan.properties[propertyName]);
+            declarations.push(`var p${index} = plans[${index}];`);
+            body.push(...this.generateProperty(propertyName, plan.properties[propertyName], index, reference));
+        });
+
+        const source = [
+            ...declarations,
+            `return function (executor, object, validationErrors, parentPath, parentPointer) {`,
+            `    var targetName = object && object.constructor ? object.constructor.name : undefined;`,
+            `    var context = ${member("context")};`,
+            `    var value, error, condition, failures, items, valid, k;`,
+            ...body.map(line => "    " + line),
+            `};`
+        ].join("\n");
+        return { source: source, metadatas: metadatas, definitions: definitions, plans: plans };
+    }
+
+    /**
+     * Generates validation of the property, the same as the executor's performValidations does.
+     */
+    private generateProperty(propertyName: string,
+                             propertyPlan: PropertyValidationPlan,
+                             index: number,
+                             reference: (metadata: ValidationMetadata) => number): string[] {
+        const options = this.options;
+        const name = JSON.stringify(propertyName);
+        const lines = [`// ${name}`];
+        if (propertyPlan.conversionMetadatas.length > 0 ||
+            (options.enableImplicitConversion && propertyPlan.implicitConversionMetadatas.length > 0) ||
+            propertyPlan.hasPromiseValidation) {
+            lines.push(`${member("validateProperty")}(object, ${name}, p${index}, validationErrors, parentPath, parentPointer);`);
+            return lines;
+        }
+
+        // property error is created when the first constraint fails, empty errors are stripped anyway
+        const ensureError = `if (!error) validationErrors.push(error = ${member("createPropertyError")}(object, value, ${name}, ` +
+            `ValidationUtils.appendPath(parentPath, ${name}), ValidationUtils.appendPointer(parentPointer, ${name})));`;
+        const hasConstraints = `error && Object.keys(error.constraints).length > 0`;
+        const label = `property${index}`;
+        lines.push(`value = object[${name}];`, `error = undefined;`, `${label}: {`);
+        const block: string[] = [];
+
+        if (propertyPlan.conditionalMetadatas.length > 0) {
+            // all conditions are evaluated, as they are by the executor
+            block.push(`condition = true;`);
+            propertyPlan.conditionalMetadatas.forEach(metadata => {
+                block.push(`condition = !!m${reference(metadata)}.constraints[0](object, value, context) && condition;`);
+            });
+            block.push(`if (!condition) break ${label};`);
+        }
+
+        const definedMetadatas = propertyPlan.definedMetadatas;
+        definedMetadatas.forEach(metadata => block.push(...this.generateValidation(metadata, reference(metadata), ensureError)));
+        if (definedMetadatas.some(metadata => !!metadata.context))
+            block.push(`if (error) ${member("mapContexts")}(object, value, p${index}.definedMetadatas, error);`);
+        if (definedMetadatas.some(metadata => this.shouldBail(metadata)))
+            block.push(`if (${hasConstraints}) break ${label};`);
+        if (definedMetadatas.some(metadata => metadata.type !== ValidationTypes.IS_DEFINED))
+            block.push(`if ((value === null || value === undefined) && !(${hasConstraints})) break ${label};`);
+
+        if (options.skipUndefinedProperties === true)
+            block.push(`if (value === undefined) break ${label};`);
+        if (options.skipNullProperties === true)
+            block.push(`if (value === null) break ${label};`);
+        if (options.skipMissingProperties === true)
+            block.push(`if (value === null || value === undefined) break ${label};`);
+
+        const validationMetadatas = propertyPlan.validationMetadatas;
+        const validationsLabel = `validations${index}`;
+        const validations: string[] = [];
+        validationMetadatas.forEach(metadata => {
+            const bail = this.shouldBail(metadata);
+            if (bail)
+                validations.push(`failures = error ? ${member("countFailures")}(error) : 0;`);
+            validations.push(...this.generateValidation(metadata, reference(metadata), ensureError));
+            if (bail)
+                validations.push(`if ((error ? ${member("countFailures")}(error) : 0) !== failures) break ${validationsLabel};`);
+        });
+        if (validationMetadatas.some(metadata => this.shouldBail(metadata))) {
+            block.push(`${validationsLabel}: {`, ...validations.map(line => "    " + line), `}`);
+        } else {
+            block.push(...validations);
+        }
+
+        if (validationMetadatas.some(metadata => !!metadata.context))
+            block.push(`if (error) ${member("mapContexts")}(object, value, p${index}.validationMetadatas, error);`);
+        if (propertyPlan.customMetadatas.some(metadata => !!metadata.context))
+            block.push(`if (error) ${member("mapContexts")}(object, value, p${index}.customMetadatas, error);`);
+
+        lines.push(...block.map(line => "    " + line), `}`);
+        return lines;
+    }
+
+    /**
+     * Generates validation of the given metadata. Built-in constraints are called directly,
+     * other validations are delegated to the executor.
+     */
+    private generateValidation(metadata: ValidationMetadata, index: number, ensureError: string): string[] {
+        const createError = [ensureError, `${member("addFailure")}(error, object, value, m${index});`];
+        const validationArguments = (value: string) => `{ targetName: targetName, property: m${index}.propertyName, ` +
+            `object: object, value: ${value}, constraints: c${index}, context: context }`;
+
+        if (metadata.type === ValidationTypes.CUSTOM_VALIDATION)
+            return [ensureError, `${member("validateCustom")}(object, value, l${index}, error);`];
+        if (metadata.type === ValidationTypes.NESTED_VALIDATION)
+            return [ensureError, `${member("validateNested")}(value, l${index}, error);`];
+        if (metadata.type === ValidationTypes.KEYS_VALIDATION)
+            return [ensureError, `${member("validateKeys")}(object, value, m${index}, error);`];
+        if (!this.constraintRegistry.isBuiltin(metadata.type) || (metadata.each && (metadata.dictionary || this.shouldReportItemErrors(metadata))))
+            return [ensureError, `${member("validateDefault")}(object, value, l${index}, error);`];
+
+        if (!metadata.each)
+            return [`if (!d${index}.validate(value, ${validationArguments("value")}, validator)) {`, ...createError.map(line => "    " + line), `}`];
+
+        // all items are validated, as they are by the executor
+        return [
+            `if (value instanceof Array || value instanceof Set || value instanceof Map) {`,
+            `    items = Array.from(value instanceof Map ? value.values() : value);`,
+            `    valid = true;`,
+            `    for (k = 0; k < items.length; k++)`,
+            `        valid = !!d${index}.validate(items[k], ${validationArguments("items[k]")}, validator) && valid;`,
+            `    if (!valid) {`,
+            ...createError.map(line => "        " + line),
+            `    }`,
+            `}`
+        ];
+    }
+
+    private shouldBail(metadata: ValidationMetadata): boolean {
+        return metadata.bail === true || this.options.stopAtFirstError === true;
+    }
+
+    private shouldReportItemErrors(metadata: ValidationMetadata): boolean {
+        if (metadata.itemErrors !== undefined && metadata.itemErrors !== null)
+            return metadata.itemErrors;
+
+        return this.options.itemErrors === true;
+    }
+
+}
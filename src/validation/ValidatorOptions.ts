@@ -1,3 +1,5 @@
+import {AbortSignalLike} from "./AbortSignalLike";
+
 /**
  * Options passed to validator during validation.
  */
@@ -34,12 +36,83 @@ export interface ValidatorOptions {
      */
     groups?: string[];
 
+    /**
+     * Properties to be validated, e.g. ["email", "address.zip", "items[0].sku"]. Other properties are not validated.
+     * By default all properties are validated.
+     */
+    properties?: string[];
+
     /**
      * If set to true, the validation will not use default messages.
      * Error message always will be undefined if its not explicitly set.
      */
     dismissDefaultMessages?: boolean;
 
+    /**
+     * Locale of the default messages, e.g. "de-AT".
+     * Messages are taken from the message catalogs registered for the locale and its fallback locales.
+     */
+    locale?: string;
+
+    /**
+     * If set to true then remaining validations of the property are skipped after its first failed validation.
+     * Async validations are started only after the previous validations of the property passed.
+     */
+    stopAtFirstError?: boolean;
+
+    /**
+     * If set to true then remaining properties of the object are not validated after its first invalid property.
+     * Properties are validated one by one, waiting for async validations of the previous properties.
+     */
+    stopAtFirstInvalidProperty?: boolean;
+
+    /**
+     * If set to true then "each" validations report their failures per item, as child errors with the item index
+     * (or key of the map entry) as property, e.g. "tags[2]", instead of a single error of the whole collection.
+     */
+    itemErrors?: boolean;
+
+    /**
+     * If set to true then string values of the properties marked with @IsInt, @IsNumber, @IsBoolean and @IsDate
+     * are converted into the checked types before validation, as if they were marked with @ToInt, @ToNumber, @ToBoolean and @ToDate.
+     * Values which can't be converted implicitly are left as is.
+     */
+    enableImplicitConversion?: boolean;
+
+    /**
+     * Defines how validateSync handles async constraints, which it can't perform:
+     * "ignore" (default) skips them silently, "warn" skips them with a console warning and "error" throws an error.
+     * Constraints which are not marked as async, but return a promise, are handled the same way.
+     */
+    asyncMode?: "ignore" | "error" | "warn";
+
+    /**
+     * Maximum time in milliseconds async constraint is awaited for.
+     * Constraint which didn't finish in time fails with "asyncTimeout" error and its signal is aborted.
+     */
+    asyncTimeout?: number;
+
+    /**
+     * Maximum number of async constraints (marked with { async: true }) performed at the same time,
+     * remaining ones wait for the performed ones to finish.
+     * Constraints which are not marked as async are performed immediately, even if they return a promise,
+     * as it's not known they are async until they are called.
+     */
+    maxAsyncConcurrency?: number;
+
+    /**
+     * Signal used to cancel validation. Validation is rejected with the abort reason,
+     * signals of the performed constraints are aborted and waiting constraints are not performed.
+     */
+    signal?: AbortSignalLike;
+
+    /**
+     * Request-scoped data (e.g. current user, tenant or database transaction) passed to the custom constraints
+     * in ValidationArguments.context and to the @ValidateIf conditions.
+     * Not to be confused with the context option of the decorators, which is exposed on the ValidationError.
+     */
+    context?: any;
+
     /**
      * ValidationError special options.
      */
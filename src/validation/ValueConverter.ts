@@ -0,0 +1,101 @@
+import {ValidationMetadata} from "../metadata/ValidationMetadata";
+import {ValidationTypes} from "./ValidationTypes";
+
+/**
+ * Converts values of the properties before their validation, e.g. query string "42" into number 42.
+ */
+export class ValueConverter {
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Converts the given value based on the given ValidationMetadata object.
+     * Returns undefined if value can't be converted.
+     */
+    convertValueByMetadata(value: any, metadata: ValidationMetadata): any {
+        switch (metadata.type) {
+            case ValidationTypes.TO_INT:
+                return this.toInt(value);
+            case ValidationTypes.TO_NUMBER:
+                return this.toNumber(value);
+            case ValidationTypes.TO_BOOLEAN:
+                return this.toBoolean(value);
+            case ValidationTypes.TO_DATE:
+                return this.toDate(value);
+            case ValidationTypes.TRIM:
+                return this.trim(value);
+            case ValidationTypes.TO_LOWER_CASE:
+                return this.toLowerCase(value);
+        }
+        return value;
+    }
+
+    /**
+     * Converts integer numbers and strings like "42" into numbers.
+     */
+    toInt(value: any): number {
+        if (typeof value === "number")
+            return Number.isInteger(value) ? value : undefined;
+        if (typeof value === "string" && /^\s*[-+]?\d+\s*$/.test(value))
+            return parseInt(value, 10);
+
+        return undefined;
+    }
+
+    /**
+     * Converts numbers and numeric strings like "4.2" into numbers.
+     */
+    toNumber(value: any): number {
+        if (typeof value === "number")
+            return isNaN(value) ? undefined : value;
+        if (typeof value === "string" && value.trim() !== "" && !isNaN(Number(value)))
+            return Number(value);
+
+        return undefined;
+    }
+
+    /**
+     * Converts "true", "1", 1 into true and "false", "0", 0 into false.
+     */
+    toBoolean(value: any): boolean {
+        if (typeof value === "boolean")
+            return value;
+        if (value === "true" || value === "1" || value === 1)
+            return true;
+        if (value === "false" || value === "0" || value === 0)
+            return false;
+
+        return undefined;
+    }
+
+    /**
+     * Converts ISO strings and timestamps into dates.
+     */
+    toDate(value: any): Date {
+        if (value instanceof Date)
+            return isNaN(value.getTime()) ? undefined : value;
+        if ((typeof value === "string" && value.trim() !== "") || typeof value === "number") {
+            const date = new Date(value);
+            return isNaN(date.getTime()) ? undefined : date;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Removes leading and trailing whitespaces of strings, other values are not changed.
+     */
+    trim(value: any): any {
+        return typeof value === "string" ? value.trim() : value;
+    }
+
+    /**
+     * Converts strings to lower case, other values are not changed.
+     */
+    toLowerCase(value: any): any {
+        return typeof value === "string" ? value.toLowerCase() : value;
+    }
+
+}
@@ -0,0 +1,218 @@
+import "es6-shim";
+import {Validate, ValidateClass, ValidatorConstraint} from "../../src/decorator/decorators";
+import {ValidatorConstraintInterface} from "../../src/validation/ValidatorConstraintInterface";
+import {ValidationArguments} from "../../src/validation/ValidationArguments";
+import {AbortSignalLike} from "../../src/validation/AbortSignalLike";
+import {Validator} from "../../src/validation/Validator";
+import {createAbortController} from "../../src/utils";
+import {registerMessageCatalog} from "../../src";
+import {expect} from "chai";
+
+// -------------------------------------------------------------------------
+// Setup
+// -------------------------------------------------------------------------
+
+const validator = new Validator();
+
+let runningLookups = 0;
+let maxRunningLookups = 0;
+const abortedLookups: string[] = [];
+const reportedTimeouts: string[] = [];
+
+/**
+ * Resolves once the current operations are finished, except for the "slow" names, lookups of which never resolve
+ * and are finished only by aborting the given signal.
+ * Signal is passed to constraints only if validation can be cancelled or timed out.
+ */
+function lookup(name: string, signal: AbortSignalLike): Promise<boolean> {
+    runningLookups++;
+    maxRunningLookups = Math.max(maxRunningLookups, runningLookups);
+    return new Promise<boolean>(resolve => {
+        if (name !== "slow") {
+            Promise.resolve().then(() => {
+                runningLookups--;
+                resolve(name !== "taken");
+            });
+        }
+        if (signal) {
+            signal.addEventListener("abort", () => {
+                runningLookups--;
+                abortedLookups.push(name);
+            });
+        }
+    });
+}
+
+/**
+ * Waits until timers scheduled before it, including ones of the given duration, are fired.
+ */
+function wait(milliseconds: number): Promise<void> {
+    return new Promise<void>(resolve => setTimeout(resolve, milliseconds));
+}
+
+registerMessageCatalog("x-timeouts", {
+    messages: {
+        asyncTimeout: (args: ValidationArguments) => {
+            reportedTimeouts.push(args.property);
+            return "$property timed out";
+        }
+    }
+});
+
+@ValidatorConstraint({ name: "isAvailable", async: true })
+class IsAvailableConstraint implements ValidatorConstraintInterface {
+
+    validate(name: string, args: ValidationArguments) {
+        return lookup(name, args.signal);
+    }
+
+}
+
+@ValidatorConstraint({ name: "isConsistent", async: true })
+class IsConsistentConstraint implements ValidatorConstraintInterface {
+
+    validate(account: Account, args: ValidationArguments) {
+        return lookup("slow", args.signal);
+    }
+
+}
+
+class Registration {
+
+    @Validate(IsAvailableConstraint)
+    login: string;
+
+    @Validate(IsAvailableConstraint, { each: true, message: "names must be available" })
+    aliases: string[] = [];
+
+}
+
+@ValidateClass(IsConsistentConstraint)
+class Account {
+}
+
+function createRegistration(login: string, aliases: string[] = []): Registration {
+    const registration = new Registration();
+    registration.login = login;
+    registration.aliases = aliases;
+    return registration;
+}
+
+// -------------------------------------------------------------------------
+// Specifications
+// -------------------------------------------------------------------------
+
+describe("async constraints", function() {
+
+    beforeEach(function() {
+        runningLookups = 0;
+        maxRunningLookups = 0;
+        abortedLookups.length = 0;
+        reportedTimeouts.length = 0;
+    });
+
+    describe("timeout", function() {
+
+        it("should report constraints which timed out and abort their signals", function() {
+            return validator.validate(createRegistration("slow", ["a", "slow", "slow"]), { asyncTimeout: 20 }).then(errors => {
+                expect(errors.map(error => error.constraints)).to.be.eql([
+                    { asyncTimeout: "login could not be validated by isAvailable in 20 ms" },
+                    { asyncTimeout: "aliases could not be validated by isAvailable in 20 ms" }
+                ]);
+                expect(errors[0].issues[0].constraints).to.be.eql(["isAvailable", 20]);
+                expect(abortedLookups).to.be.eql(["slow", "slow", "slow"]);
+            });
+        });
+
+        it("should report results of constraints finished in time", function() {
+            return validator.validate(createRegistration("taken", ["a", "taken"]), { asyncTimeout: 10000 }).then(errors => {
+                expect(errors.map(error => error.constraints)).to.be.eql([
+                    { isAvailable: "" },
+                    { isAvailable: "names must be available" }
+                ]);
+            });
+        });
+
+        it("should report class-level constraints which timed out", function() {
+            return validator.validate(new Account(), { asyncTimeout: 20 }).then(errors => {
+                expect(errors.length).to.be.equal(1);
+                expect(errors[0].property).to.be.undefined;
+                expect(errors[0].constraints).to.be.eql({ asyncTimeout: "Account could not be validated by isConsistent in 20 ms" });
+            });
+        });
+
+    });
+
+    describe("concurrency", function() {
+
+        it("should limit number of the performed async constraints", function() {
+            const aliases = ["a", "b", "c", "d", "e", "taken"];
+            return validator.validate(createRegistration("login", aliases), { maxAsyncConcurrency: 2 }).then(errors => {
+                expect(maxRunningLookups).to.be.equal(2);
+                expect(errors.map(error => error.property)).to.be.eql(["aliases"]);
+            });
+        });
+
+        it("should perform all async constraints at once by default", function() {
+            return validator.validate(createRegistration("login", ["a", "b", "c"])).then(errors => {
+                expect(maxRunningLookups).to.be.equal(4);
+                expect(errors).to.be.eql([]);
+            });
+        });
+
+    });
+
+    describe("cancellation", function() {
+
+        it("should reject validation and abort performed constraints", function() {
+            const abortController = createAbortController();
+            const validation = validator.validate(createRegistration("slow", ["a", "b", "c"]), {
+                signal: abortController.signal,
+                maxAsyncConcurrency: 1
+            });
+            abortController.abort();
+            return validation.then(() => {
+                throw new Error("validation should be rejected");
+            }, error => {
+                expect(error.name).to.be.equal("AbortError");
+                expect(abortedLookups).to.be.eql(["slow"]);
+                return wait(0);
+            }).then(() => {
+                expect(maxRunningLookups).to.be.equal(1);
+            });
+        });
+
+        it("should reject with the abort reason", function() {
+            const abortController = createAbortController();
+            const reason = new Error("request closed");
+            abortController.abort(reason);
+            return validator.validate(createRegistration("login"), { signal: abortController.signal }).then(() => {
+                throw new Error("validation should be rejected");
+            }, error => {
+                expect(error).to.be.equal(reason);
+                expect(maxRunningLookups).to.be.equal(0);
+            });
+        });
+
+        it("should clear timers of the constraints once the signal is aborted", function() {
+            const abortController = createAbortController();
+            const validation = validator.validate(createRegistration("slow"), {
+                signal: abortController.signal,
+                asyncTimeout: 20,
+                locale: "x-timeouts"
+            });
+            abortController.abort();
+            return validation.then(() => {
+                throw new Error("validation should be rejected");
+            }, error => {
+                expect(error.name).to.be.equal("AbortError");
+                return wait(40);
+            }).then(() => {
+                expect(reportedTimeouts).to.be.eql([]);
+                expect(abortedLookups).to.be.eql(["slow"]);
+            });
+        });
+
+    });
+
+});
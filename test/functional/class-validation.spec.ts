@@ -0,0 +1,120 @@
+import "es6-shim";
+import {IsOptional, IsString, ValidateClass, ValidateNested, ValidatorConstraint} from "../../src/decorator/decorators";
+import {ClassValidatorConstraintInterface, ClassValidationViolation} from "../../src/validation/ClassValidatorConstraintInterface";
+import {ValidationArguments} from "../../src/validation/ValidationArguments";
+import {Validator} from "../../src/validation/Validator";
+import {expect} from "chai";
+
+// -------------------------------------------------------------------------
+// Setup
+// -------------------------------------------------------------------------
+
+const validator = new Validator();
+
+@ValidatorConstraint({ name: "exactlyOnePaymentMethod" })
+class ExactlyOnePaymentMethodConstraint implements ClassValidatorConstraintInterface {
+
+    validate(payment: Payment): ClassValidationViolation[] {
+        if (!!payment.iban === !!payment.cardNumber) {
+            return [
+                { property: "iban" },
+                { property: "cardNumber", message: "either iban or card number must be set" }
+            ];
+        }
+        return [];
+    }
+
+    defaultMessage(args: ValidationArguments) {
+        return "exactly one payment method must be set, $property is invalid";
+    }
+
+}
+
+@ValidatorConstraint({ name: "isBalanced", async: true })
+class IsBalancedConstraint implements ClassValidatorConstraintInterface {
+
+    validate(payment: Payment, args: ValidationArguments) {
+        return new Promise<boolean>(resolve => setTimeout(() => resolve(payment.amount <= args.constraints[0]), 5));
+    }
+
+}
+
+@ValidateClass(IsBalancedConstraint, [100], { message: "payment exceeds the limit of $constraint1" })
+@ValidateClass(ExactlyOnePaymentMethodConstraint)
+class Payment {
+
+    @IsOptional()
+    @IsString()
+    iban: string;
+
+    cardNumber: string;
+
+    amount: number;
+
+}
+
+class Order {
+
+    @ValidateNested()
+    payment: Payment;
+
+}
+
+function createPayment(iban: any, cardNumber: string, amount: number): Payment {
+    const payment = new Payment();
+    payment.iban = iban;
+    payment.cardNumber = cardNumber;
+    payment.amount = amount;
+    return payment;
+}
+
+// -------------------------------------------------------------------------
+// Specifications
+// -------------------------------------------------------------------------
+
+describe("class validation", function() {
+
+    it("should not return errors for valid objects", function() {
+        return validator.validate(createPayment("DE89370400440532013000", undefined, 50)).then(errors => {
+            expect(errors).to.be.eql([]);
+        });
+    });
+
+    it("should attribute violations to the properties", function() {
+        return validator.validate(createPayment(1, "4111111111111111", 50)).then(errors => {
+            expect(errors.map(error => error.property)).to.be.eql(["iban", "cardNumber"]);
+            expect(errors[0].constraints).to.be.eql({
+                isString: "iban must be a string",
+                exactlyOnePaymentMethod: "exactly one payment method must be set, iban is invalid"
+            });
+            expect(errors[1].constraints).to.be.eql({ exactlyOnePaymentMethod: "either iban or card number must be set" });
+            expect(errors[1].value).to.be.equal("4111111111111111");
+            expect(errors[1].path).to.be.equal("cardNumber");
+        });
+    });
+
+    it("should attribute async violations to the object itself", function() {
+        const payment = createPayment(undefined, "4111111111111111", 500);
+        return validator.validate(payment).then(errors => {
+            expect(errors.length).to.be.equal(1);
+            expect(errors[0].property).to.be.undefined;
+            expect(errors[0].value).to.be.equal(payment);
+            expect(errors[0].constraints).to.be.eql({ isBalanced: "payment exceeds the limit of 100" });
+        });
+    });
+
+    it("should validate nested objects", function() {
+        const order = new Order();
+        order.payment = createPayment(undefined, undefined, 500);
+        return validator.validate(order).then(errors => {
+            expect(errors[0].children.map(error => error.path)).to.be.eql(["payment.iban", "payment.cardNumber", "payment"]);
+            expect(errors[0].children[2].pointer).to.be.equal("/payment");
+        });
+    });
+
+    it("should ignore async class validations in sync validation", function() {
+        const errors = validator.validateSync(createPayment(undefined, "4111111111111111", 500));
+        expect(errors).to.be.eql([]);
+    });
+
+});
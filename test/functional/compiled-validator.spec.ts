@@ -0,0 +1,320 @@
+import "es6-shim";
+import {
+    ArrayMaxSize,
+    Contains,
+    IsDefined,
+    IsEmail,
+    IsIn,
+    IsInt,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+    Matches,
+    MaxLength,
+    Min,
+    MinLength,
+    RequiredIf,
+    ToInt,
+    Validate,
+    ValidateBy,
+    ValidateClass,
+    ValidateIf,
+    ValidateKeys,
+    ValidateNested,
+    ValidatorConstraint
+} from "../../src/decorator/decorators";
+import {ValidatorConstraintInterface} from "../../src/validation/ValidatorConstraintInterface";
+import {ClassValidatorConstraintInterface} from "../../src/validation/ClassValidatorConstraintInterface";
+import {ValidatorOptions} from "../../src/validation/ValidatorOptions";
+import {ValidatorCompiler} from "../../src/validation/ValidatorCompiler";
+import {CompiledExecutionContext} from "../../src/validation/CompiledExecutionContext";
+import {ValidationError} from "../../src/validation/ValidationError";
+import {ValidationTypes} from "../../src/validation/ValidationTypes";
+import {ConstraintRegistry} from "../../src/validation/ConstraintRegistry";
+import {MetadataStorage} from "../../src/metadata/MetadataStorage";
+import {Validator} from "../../src/validation/Validator";
+import {getFromContainer} from "../../src/container";
+import {compile, registerConstraint} from "../../src";
+import {expect} from "chai";
+
+// -------------------------------------------------------------------------
+// Setup
+// -------------------------------------------------------------------------
+
+const validator = new Validator();
+
+@ValidatorConstraint({ name: "isProductCode" })
+class IsProductCodeConstraint implements ValidatorConstraintInterface {
+
+    validate(value: any) {
+        return typeof value === "string" && /^P-\d+$/.test(value);
+    }
+
+}
+
+@ValidatorConstraint({ name: "hasStock" })
+class HasStockConstraint implements ClassValidatorConstraintInterface {
+
+    validate(product: Product) {
+        return product.stock > 0 ? true : [{ property: "stock", message: "stock must be positive" }];
+    }
+
+}
+
+registerConstraint({
+    name: "isCompiledSlug",
+    validate: value => typeof value === "string" && /^[A-Za-z0-9-]+$/.test(value),
+    defaultMessage: "$property must be a slug"
+});
+
+class Tag {
+
+    @IsString()
+    @MaxLength(10)
+    name: string;
+
+}
+
+class Address {
+
+    @IsNotEmpty()
+    street: string;
+
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    number: number;
+
+}
+
+class Customer {
+
+    @IsDefined()
+    @IsString()
+    @MinLength(2, { context: { severity: "warning" } })
+    @MaxLength(20)
+    name: string;
+
+    @IsEmail({}, { bail: true })
+    @Contains("example")
+    email: string;
+
+    @IsInt({ each: true })
+    @ArrayMaxSize(3)
+    scores: number[];
+
+    @IsIn(["admin", "member"], { each: true, itemErrors: true })
+    roles: string[];
+
+    @ValidateNested()
+    address: Address;
+
+    @ValidateNested({ each: true })
+    tags: Tag[];
+
+    @ValidateIf(customer => customer.hasPhone)
+    @IsNotEmpty()
+    phone: string;
+
+    hasPhone: boolean;
+
+    @RequiredIf("hasPhone", true)
+    @Matches(/^\d+$/)
+    phoneCountry: string;
+
+    @Validate(IsProductCodeConstraint)
+    @ValidateBy("isCompiledSlug", { groups: ["slugs"] })
+    code: string;
+
+    @ValidateKeys(MinLength(2))
+    @IsInt({ each: true, dictionary: true })
+    limits: { [name: string]: number };
+
+    @ToInt()
+    @Min(18)
+    age: any;
+
+}
+
+@ValidateClass(HasStockConstraint)
+class Product {
+
+    @IsString()
+    name: string;
+
+    stock: number;
+
+}
+
+function createCustomer(values: Partial<Customer> = {}): Customer {
+    const address = Object.assign(new Address(), { street: "Main Street", number: 2 });
+    const tag = Object.assign(new Tag(), { name: "news" });
+    return Object.assign(new Customer(), {
+        name: "John",
+        email: "john@example.com",
+        scores: [1, 2],
+        roles: ["admin"],
+        address: address,
+        tags: [tag],
+        hasPhone: false,
+        code: "P-1",
+        limits: { daily: 10 },
+        age: "21"
+    }, values);
+}
+
+/**
+ * Customers covering different failures of the validations, created for each check as conversions change them.
+ */
+const customerFactories: (() => Customer)[] = [
+    () => createCustomer(),
+    () => createCustomer({ name: "J", email: "john", scores: [1.5, 2, 3, 4], roles: ["admin", "owner", "guest"] }),
+    () => createCustomer({ name: undefined, email: "john@gmail.com", scores: undefined, roles: null }),
+    () => createCustomer({ address: Object.assign(new Address(), { street: "", number: 0 }) }),
+    () => createCustomer({ address: { street: "" } as Address, tags: [{ name: 1 } as any, Object.assign(new Tag(), { name: "breaking-news" })] }),
+    () => createCustomer({ address: "Main Street" as any, tags: "news" as any }),
+    () => createCustomer({ hasPhone: true, phone: "", phoneCountry: undefined }),
+    () => createCustomer({ hasPhone: true, phone: "123", phoneCountry: "+1" }),
+    () => createCustomer({ code: "abc", limits: { d: 1.5, weekly: "7" } as any, age: "young" }),
+    () => createCustomer({ name: null, email: null, address: null, tags: null, code: null, limits: null, age: null }),
+    () => ({ name: "J", email: "john", address: { street: "" }, tags: [{ name: 1 }], age: "17" } as any)
+];
+
+const optionsList: ValidatorOptions[] = [
+    undefined,
+    { stopAtFirstError: true },
+    { skipMissingProperties: true },
+    { skipNullProperties: true },
+    { skipUndefinedProperties: true },
+    { itemErrors: true },
+    { dismissDefaultMessages: true },
+    { validationError: { target: false, value: false } },
+    { groups: ["slugs"] },
+    { enableImplicitConversion: true },
+    { context: { tenant: "acme" } },
+    { whitelist: true, forbidNonWhitelisted: true },
+    { stopAtFirstInvalidProperty: true },
+    { properties: ["name", "address.street"] }
+];
+
+/**
+ * Measures how long the given function runs for the given number of times, in milliseconds.
+ */
+function measure(times: number, fn: () => void): number {
+    const start = process.hrtime();
+    for (let i = 0; i < times; i++)
+        fn();
+    const [seconds, nanoseconds] = process.hrtime(start);
+    return seconds * 1e3 + nanoseconds / 1e6;
+}
+
+// -------------------------------------------------------------------------
+// Specifications
+// -------------------------------------------------------------------------
+
+describe("compiled validator", function() {
+
+    it("should produce the same errors as the interpreted validation", function() {
+        optionsList.forEach(options => {
+            const validateCustomer = compile(Customer, options);
+            customerFactories.forEach((createObject, index) => {
+                const expectedErrors = validator.validateSync(Customer, createObject(), options);
+                expect(validateCustomer(createObject()), `customer ${index} with ${JSON.stringify(options)}`).to.be.eql(expectedErrors);
+            });
+        });
+    });
+
+    it("should report errors of the nested objects", function() {
+        const errors = compile(Customer)(createCustomer({ address: Object.assign(new Address(), { street: "" }) }));
+        expect(errors.map(error => error.path)).to.be.eql(["address"]);
+        expect(errors[0].children.map(error => error.constraints)).to.be.eql([{ isNotEmpty: "street should not be empty" }]);
+    });
+
+    it("should produce the same errors for the classes which aren't compiled", function() {
+        const compiler = new ValidatorCompiler(validator);
+        expect(compiler.generateSource(Product)).to.be.equal(undefined);
+
+        const product = Object.assign(new Product(), { name: 1, stock: 0 });
+        expect(compile(Product)(product)).to.be.eql(validator.validateSync(product));
+        expect(compile(Product)(product).map(error => Object.keys(error.constraints))).to.be.eql([["isString"], ["hasStock"]]);
+    });
+
+    it("should call the built-in constraints directly", function() {
+        const source = new ValidatorCompiler(validator).generateSource(Tag);
+        expect(source).to.contain("d0.validate(value,");
+        expect(source).not.to.contain("executor.validateDefault");
+        expect(new ValidatorCompiler(validator, { itemErrors: true }).generateSource(Customer)).to.contain("executor.validateDefault");
+    });
+
+    it("should execute compiled validators with the executor context only", function() {
+        const calls: string[] = [];
+        const record = (name: string) => (...args: any[]): any => { calls.push(name); };
+        const context: CompiledExecutionContext = {
+            context: undefined,
+            validateProperty: record("validateProperty"),
+            createPropertyError: (object, value, propertyName, path) => {
+                calls.push("createPropertyError");
+                return Object.assign(new ValidationError(), { property: propertyName, path: path, constraints: {}, children: [] });
+            },
+            addFailure: (error, object, value, metadata) => {
+                calls.push("addFailure");
+                error.constraints[metadata.type] = "";
+            },
+            countFailures: error => Object.keys(error.constraints).length,
+            mapContexts: record("mapContexts"),
+            validateDefault: record("validateDefault"),
+            validateCustom: record("validateCustom"),
+            validateNested: record("validateNested"),
+            validateKeys: record("validateKeys")
+        };
+        const validationErrors: ValidationError[] = [];
+        new ValidatorCompiler(validator).getExecution(Tag)(context, { name: "breaking-news" }, validationErrors, "tags[1]", "/tags/1");
+        expect(calls).to.be.eql(["createPropertyError", "addFailure"]);
+        expect(validationErrors.map(error => [error.path, error.constraints])).to.be.eql([["tags[1].name", { maxLength: "" }]]);
+    });
+
+    it("should use the built-in constraints replaced before the validator is compiled", function() {
+        const registry = getFromContainer(ConstraintRegistry);
+        const isEmailDefinition = registry.get(ValidationTypes.IS_EMAIL);
+        registry.override(ValidationTypes.IS_EMAIL, { validate: (value: any) => /@example\.org$/.test(value) });
+        try {
+            const customer = createCustomer({ email: "john@example.com" });
+            expect(compile(Customer)(customer)).to.be.eql(validator.validateSync(customer));
+            expect(compile(Customer)(customer).map(error => error.property)).to.be.eql(["email"]);
+        } finally {
+            registry.register(isEmailDefinition);
+        }
+    });
+
+    it("should compile validator again when metadata is added", function() {
+        const storage = new MetadataStorage();
+        class Note {
+            @MaxLength(5, { metadataStorage: storage })
+            text: string;
+        }
+        const validateNote = new Validator(storage).compile(Note);
+        const note = Object.assign(new Note(), { text: "" });
+        expect(validateNote(note)).to.be.eql([]);
+
+        MinLength(1, { metadataStorage: storage })(Note.prototype, "text");
+        expect(validateNote(note).map(error => Object.keys(error.constraints))).to.be.eql([["minLength"]]);
+    });
+
+    (process.env.BENCHMARK ? describe : describe.skip)("benchmark", function() {
+
+        this.timeout(20000);
+
+        it("should validate objects faster than the interpreted validation", function() {
+            const times = 1000;
+            const customer = createCustomer({ age: 21 });
+            const validateCustomer = compile(Customer);
+            expect(validateCustomer(customer)).to.be.eql([]);
+            const interpretedTime = measure(times, () => validator.validateSync(customer));
+            const compiledTime = measure(times, () => validateCustomer(customer));
+            console.log(`        validation: ${Math.round(times / interpretedTime * 1000)} objects per second interpreted, ` +
+                `${Math.round(times / compiledTime * 1000)} objects per second compiled`);
+        });
+
+    });
+
+});
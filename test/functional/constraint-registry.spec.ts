@@ -0,0 +1,169 @@
+import "es6-shim";
+import {IsEmail, IsNumberString, ValidateBy} from "../../src/decorator/decorators";
+import {ConstraintRegistry} from "../../src/validation/ConstraintRegistry";
+import {ConstraintDefinition} from "../../src/validation/ConstraintDefinition";
+import {ValidationTypes} from "../../src/validation/ValidationTypes";
+import {Validator} from "../../src/validation/Validator";
+import {getFromContainer} from "../../src/container";
+import {registerConstraint, registerSchema} from "../../src";
+import {expect} from "chai";
+
+// -------------------------------------------------------------------------
+// Setup
+// -------------------------------------------------------------------------
+
+const validator = new Validator();
+const registry = getFromContainer(ConstraintRegistry);
+
+registerConstraint({
+    name: "isSlug",
+    validate: (value, args) => typeof value === "string" && new RegExp(`^[a-z0-9-]{1,${args.constraints[0]}}$`).test(value),
+    defaultMessage: "$property must be a slug not longer than $constraint1 characters",
+    arity: 1
+});
+
+registerConstraint({
+    name: "isFreeSlug",
+    validate: (value) => new Promise<boolean>(resolve => setTimeout(() => resolve(value !== "taken"), 5)),
+    defaultMessage: "$property is already taken",
+    async: true
+});
+
+class Article {
+
+    @ValidateBy("isSlug", [10])
+    @ValidateBy("isFreeSlug")
+    slug: string;
+
+    @ValidateBy("isSlug", [5], { each: true })
+    tags: string[];
+
+    @IsEmail()
+    authorEmail: string;
+
+}
+
+class Price {
+
+    @IsNumberString({}, { no_symbols: true })
+    amount: string;
+
+}
+
+function createArticle(slug: string, tags: string[] = [], authorEmail: string = "author@example.com"): Article {
+    return Object.assign(new Article(), { slug: slug, tags: tags, authorEmail: authorEmail });
+}
+
+// -------------------------------------------------------------------------
+// Specifications
+// -------------------------------------------------------------------------
+
+describe("constraint registry", function() {
+
+    let isEmailDefinition: ConstraintDefinition;
+
+    beforeEach(function() {
+        isEmailDefinition = registry.get(ValidationTypes.IS_EMAIL);
+    });
+
+    afterEach(function() {
+        registry.register(isEmailDefinition);
+    });
+
+    it("should contain built-in constraints", function() {
+        expect(registry.getNames()).to.include.members([ValidationTypes.IS_EMAIL, ValidationTypes.LENGTH, ValidationTypes.IS_INSTANCE]);
+        expect(registry.get(ValidationTypes.LENGTH).arity).to.be.equal(2);
+        expect(ValidationTypes.getMessage(ValidationTypes.MIN_DATE, true)).to.be.equal("minimal allowed date for each value in $property is $constraint1");
+    });
+
+    it("should validate by the registered constraints", function() {
+        return validator.validate(createArticle("Hello World", ["news", "breaking-news"])).then(errors => {
+            expect(errors.map(error => error.constraints)).to.be.eql([
+                { isSlug: "slug must be a slug not longer than 10 characters" },
+                { isSlug: "each value in tags must be a slug not longer than 5 characters" }
+            ]);
+        });
+    });
+
+    it("should wait for the async registered constraints", function() {
+        return validator.validate(createArticle("taken")).then(errors => {
+            expect(errors.map(error => error.constraints)).to.be.eql([{ isFreeSlug: "slug is already taken" }]);
+        });
+    });
+
+    it("should skip the async registered constraints in sync validation", function() {
+        expect(validator.validateSync(createArticle("taken"))).to.be.eql([]);
+        expect(() => validator.validateSync(createArticle("taken"), { asyncMode: "error" }))
+            .to.throw(`Async constraint "isFreeSlug" of Article.slug can't be performed by sync validation.`);
+    });
+
+    it("should replace the built-in constraint", function() {
+        registerConstraint({
+            name: ValidationTypes.IS_EMAIL,
+            validate: (value, args, validator) => validator.isEmail(value) && /@example\.com$/.test(value),
+            defaultMessage: "$property must be an example.com email"
+        });
+        return validator.validate(createArticle("hello", [], "author@gmail.com")).then(errors => {
+            expect(errors.map(error => error.constraints)).to.be.eql([{ isEmail: "authorEmail must be an example.com email" }]);
+        });
+    });
+
+    it("should override parts of the built-in constraint", function() {
+        registry.override(ValidationTypes.IS_EMAIL, { defaultMessage: "$property is not a valid email address" });
+        expect(registry.get(ValidationTypes.IS_EMAIL).validate).to.be.equal(isEmailDefinition.validate);
+        return validator.validate(createArticle("hello", [], "author")).then(errors => {
+            expect(errors.map(error => error.constraints)).to.be.eql([{ isEmail: "authorEmail is not a valid email address" }]);
+        });
+    });
+
+    it("should not override constraints which are not registered", function() {
+        expect(() => registry.override("isUnknown", { defaultMessage: "" }))
+            .to.throw(`Constraint "isUnknown" is not registered, so it can't be overridden.`);
+    });
+
+    it("should accept the registered constraints in validation schemas", function() {
+        registerSchema({ name: "registry-article", properties: { slug: [{ type: "isSlug", constraints: [3] }] } });
+        expect(ValidationTypes.isValid("isSlug")).to.be.equal(true);
+        return validator.validate("registry-article", { slug: "hello" }).then(errors => {
+            expect(errors.map(error => error.constraints)).to.be.eql([{ isSlug: "slug must be a slug not longer than 3 characters" }]);
+        });
+    });
+
+    it("should pass options to the built-in constraints", function() {
+        registerSchema({ name: "registry-price", properties: { amount: [{ type: ValidationTypes.IS_NUMBER_STRING, constraints: [{ no_symbols: true }] }] } });
+        const price = Object.assign(new Price(), { amount: "-10" });
+        return Promise.all([validator.validate(price), validator.validate("registry-price", { amount: "-10" })]).then(results => {
+            results.forEach(errors => {
+                expect(errors.map(error => error.constraints)).to.be.eql([{ isNumberString: "amount must be a number string" }]);
+            });
+            expect(validator.validateSync(Object.assign(new Price(), { amount: "10" }))).to.be.eql([]);
+        });
+    });
+
+    it("should accept options of the IsNumber decorator in IsNumberString", function() {
+        class Quantity {
+            @IsNumberString({}, { allowNaN: false })
+            value: string;
+        }
+        expect(validator.validateSync(Object.assign(new Quantity(), { value: "10" }))).to.be.eql([]);
+        expect(validator.validateSync(Object.assign(new Quantity(), { value: "ten" })).map(error => error.property)).to.be.eql(["value"]);
+    });
+
+    it("should warn about validation schemas with more constraints than the constraint accepts", function() {
+        const warn = console.warn;
+        const warnings: any[] = [];
+        console.warn = (...args: any[]) => warnings.push(args);
+        try {
+            registerSchema({ name: "registry-invalid", properties: { slug: [{ type: "isSlug", constraints: [3, 4] }] } });
+        } finally {
+            console.warn = warn;
+        }
+        expect(warnings).to.be.eql([
+            ["Validation schema registry-invalid#slug has 2 constraints, but isSlug accepts at most 1, the rest of them is ignored"]
+        ]);
+        expect(validator.validateSync("registry-invalid", { slug: "abcd" }).map(error => error.constraints)).to.be.eql([
+            { isSlug: "slug must be a slug not longer than 3 characters" }
+        ]);
+    });
+
+});
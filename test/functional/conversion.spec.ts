@@ -0,0 +1,187 @@
+import "es6-shim";
+import {
+    IsBoolean,
+    IsDate,
+    IsIn,
+    IsInt,
+    IsNumber,
+    Max,
+    ToBoolean,
+    ToDate,
+    ToInt,
+    ToLowerCase,
+    ToNumber,
+    Trim,
+    ValidateIf
+} from "../../src/decorator/decorators";
+import {Validator} from "../../src/validation/Validator";
+import {ValueConverter} from "../../src/validation/ValueConverter";
+import {expect} from "chai";
+
+// -------------------------------------------------------------------------
+// Setup
+// -------------------------------------------------------------------------
+
+const validator = new Validator();
+
+class SearchQuery {
+
+    @Max(100)
+    @ToInt()
+    limit: any;
+
+    @ToNumber()
+    minPrice: any;
+
+    @ToBoolean()
+    inStock: any;
+
+    @ToDate()
+    since: any;
+
+    @IsIn(["asc", "desc"])
+    @ToLowerCase()
+    @Trim()
+    order: any;
+
+    @ToInt({ each: true })
+    categoryIds: any;
+
+    @ValidateIf(query => query.limit > 10)
+    @ToInt()
+    page: any;
+
+}
+
+class ImplicitQuery {
+
+    @IsInt()
+    limit: any;
+
+    @IsNumber()
+    minPrice: any;
+
+    @IsBoolean()
+    inStock: any;
+
+    @IsDate()
+    since: any;
+
+    @IsInt({ each: true })
+    categoryIds: any;
+
+}
+
+// -------------------------------------------------------------------------
+// Specifications
+// -------------------------------------------------------------------------
+
+describe("conversion", function() {
+
+    it("should write converted values back to the object", function() {
+        const query = Object.assign(new SearchQuery(), {
+            limit: " 42 ",
+            minPrice: "4.5",
+            inStock: "false",
+            since: "2020-01-02T00:00:00.000Z",
+            order: " DESC ",
+            categoryIds: ["1", "2"]
+        });
+        return validator.validate(query).then(errors => {
+            expect(errors).to.be.eql([]);
+            expect(query.limit).to.be.equal(42);
+            expect(query.minPrice).to.be.equal(4.5);
+            expect(query.inStock).to.be.equal(false);
+            expect(query.since).to.be.eql(new Date("2020-01-02T00:00:00.000Z"));
+            expect(query.order).to.be.equal("desc");
+            expect(query.categoryIds).to.be.eql([1, 2]);
+        });
+    });
+
+    it("should validate converted values", function() {
+        const query = Object.assign(new SearchQuery(), { limit: "101", order: "up" });
+        return validator.validate(query).then(errors => {
+            expect(errors.map(error => error.constraints)).to.be.eql([
+                { max: "limit must not be greater than 100" },
+                { isIn: "order must be one of the following values: asc,desc" }
+            ]);
+        });
+    });
+
+    it("should report failed conversions instead of other validations", function() {
+        const query = Object.assign(new SearchQuery(), {
+            limit: "4.2",
+            minPrice: "cheap",
+            inStock: "yes",
+            since: "yesterday",
+            order: "asc",
+            categoryIds: ["1", "x"]
+        });
+        return validator.validate(query).then(errors => {
+            expect(errors.map(error => error.constraints)).to.be.eql([
+                { toInt: "limit must be convertible to an integer number" },
+                { toNumber: "minPrice must be convertible to a number" },
+                { toBoolean: "inStock must be convertible to a boolean value" },
+                { toDate: "since must be convertible to a date" },
+                { toInt: "each value in categoryIds must be convertible to an integer number" }
+            ]);
+            expect(query.limit).to.be.equal("4.2");
+            expect(query.categoryIds).to.be.eql(["1", "x"]);
+        });
+    });
+
+    it("should not report failed conversions of values which are not validated", function() {
+        const query = Object.assign(new SearchQuery(), { limit: "5", order: "asc", page: "first" });
+        return validator.validate(query).then(errors => {
+            expect(errors).to.be.eql([]);
+        });
+    });
+
+    it("should not convert values implicitly by default", function() {
+        const query = Object.assign(new ImplicitQuery(), { limit: "42" });
+        return validator.validate(query, { skipMissingProperties: true }).then(errors => {
+            expect(errors.map(error => error.property)).to.be.eql(["limit"]);
+            expect(query.limit).to.be.equal("42");
+        });
+    });
+
+    it("should convert string values implicitly by type checkers", function() {
+        const query = Object.assign(new ImplicitQuery(), {
+            limit: "42",
+            minPrice: "4.5",
+            inStock: "true",
+            since: "2020-01-02",
+            categoryIds: ["1", 2]
+        });
+        return validator.validate(query, { enableImplicitConversion: true }).then(errors => {
+            expect(errors).to.be.eql([]);
+            expect(query.limit).to.be.equal(42);
+            expect(query.minPrice).to.be.equal(4.5);
+            expect(query.inStock).to.be.equal(true);
+            expect(query.since).to.be.instanceof(Date);
+            expect(query.categoryIds).to.be.eql([1, 2]);
+        });
+    });
+
+    it("should leave values which can't be converted implicitly for type checkers", function() {
+        const query = Object.assign(new ImplicitQuery(), { limit: "4.2", inStock: 1 });
+        return validator.validate(query, { enableImplicitConversion: true, skipMissingProperties: true }).then(errors => {
+            expect(errors.map(error => error.constraints)).to.be.eql([
+                { isInt: "limit must be an integer number" },
+                { isBoolean: "inStock must be a boolean value" }
+            ]);
+            expect(query.limit).to.be.equal("4.2");
+        });
+    });
+
+    it("should convert values", function() {
+        const converter = new ValueConverter();
+        expect(converter.toInt("-7")).to.be.equal(-7);
+        expect(converter.toInt(1.5)).to.be.undefined;
+        expect(converter.toNumber("")).to.be.undefined;
+        expect(converter.toBoolean(0)).to.be.equal(false);
+        expect(converter.toDate(0)).to.be.eql(new Date(0));
+        expect(converter.trim(1)).to.be.equal(1);
+    });
+
+});
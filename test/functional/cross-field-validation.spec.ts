@@ -0,0 +1,183 @@
+import "es6-shim";
+import {
+    EqualsProperty,
+    NotEqualsProperty,
+    GreaterThanProperty,
+    GreaterThanOrEqualProperty,
+    LessThanProperty,
+    LessThanOrEqualProperty,
+    RequiredIf,
+    RequiredWith,
+    RequiredWithout,
+    MinLength
+} from "../../src/decorator/decorators";
+import {Validator} from "../../src/validation/Validator";
+import {expect} from "chai";
+
+// -------------------------------------------------------------------------
+// Setup
+// -------------------------------------------------------------------------
+
+const validator = new Validator();
+
+// -------------------------------------------------------------------------
+// Specifications
+// -------------------------------------------------------------------------
+
+describe("cross-field validation", function() {
+
+    describe("comparison", function() {
+
+        class Credentials {
+            password: string;
+        }
+
+        class Registration {
+            credentials: Credentials;
+
+            @EqualsProperty("credentials.password")
+            passwordConfirmation: string;
+
+            @NotEqualsProperty("credentials.password")
+            login: string;
+        }
+
+        class Period {
+            startDate: Date;
+
+            @GreaterThanProperty("startDate")
+            endDate: Date;
+
+            min: number;
+
+            @GreaterThanOrEqualProperty("min")
+            max: number;
+
+            @LessThanProperty("to")
+            from: string;
+
+            to: string;
+
+            @LessThanOrEqualProperty("max", { each: true })
+            values: number[];
+        }
+
+        function createRegistration(passwordConfirmation: string, login: string) {
+            const registration = new Registration();
+            registration.credentials = new Credentials();
+            registration.credentials.password = "secret";
+            registration.passwordConfirmation = passwordConfirmation;
+            registration.login = login;
+            return registration;
+        }
+
+        function createPeriod(endDate: Date, max: number, from: string, values: number[]) {
+            const period = new Period();
+            period.startDate = new Date(2020, 0, 1);
+            period.endDate = endDate;
+            period.min = 5;
+            period.max = max;
+            period.from = from;
+            period.to = "m";
+            period.values = values;
+            return period;
+        }
+
+        it("should compare values with values of nested properties", function() {
+            return Promise.all([
+                validator.validate(createRegistration("secret", "umed")),
+                validator.validate(createRegistration("Secret", "secret"))
+            ]).then(([validErrors, invalidErrors]) => {
+                expect(validErrors).to.be.eql([]);
+                expect(invalidErrors.map(error => error.constraints)).to.be.eql([
+                    { equalsProperty: "passwordConfirmation must be equal to credentials.password" },
+                    { notEqualsProperty: "login should not be equal to credentials.password" }
+                ]);
+            });
+        });
+
+        it("should compare dates, numbers and strings", function() {
+            return Promise.all([
+                validator.validate(createPeriod(new Date(2020, 0, 2), 5, "a", [1, 5])),
+                validator.validate(createPeriod(new Date(2020, 0, 1), 4, "m", [1, 6]))
+            ]).then(([validErrors, invalidErrors]) => {
+                expect(validErrors).to.be.eql([]);
+                expect(invalidErrors.map(error => error.constraints)).to.be.eql([
+                    { greaterThanProperty: "endDate must be greater than startDate" },
+                    { greaterThanOrEqualProperty: "max must be greater than or equal to min" },
+                    { lessThanProperty: "from must be less than to" },
+                    { lessThanOrEqualProperty: "each value in values must be less than or equal to max" }
+                ]);
+            });
+        });
+
+        it("should fail if values of different types are compared", function() {
+            expect(validator.greaterThanProperty("10", { min: 5 }, "min")).to.be.false;
+            expect(validator.lessThanOrEqualProperty(10, { max: undefined }, "max")).to.be.false;
+            expect(validator.equalsProperty(new Date(2020, 0, 1), { date: new Date(2020, 0, 1) }, "date")).to.be.true;
+        });
+
+    });
+
+    describe("required", function() {
+
+        class Order {
+            deliveryType: string;
+
+            @MinLength(5)
+            @RequiredIf("deliveryType", "courier")
+            address: string;
+
+            phone: string;
+
+            email: string;
+
+            @RequiredWith(["phone"])
+            phoneCountryCode: string;
+
+            @RequiredWithout(["phone", "email"])
+            postalAddress: string;
+        }
+
+        function createOrder(values: Partial<Order>): Order {
+            return Object.assign(new Order(), values);
+        }
+
+        it("should require values depending on other properties", function() {
+            return validator.validate(createOrder({ deliveryType: "courier", phone: "123", email: "a@b.c" })).then(errors => {
+                expect(errors.map(error => error.constraints)).to.be.eql([
+                    {
+                        requiredIf: "address should not be empty when deliveryType is courier",
+                        minLength: "address must be longer than or equal to 5 characters"
+                    },
+                    { requiredWith: "phoneCountryCode should not be empty when any of phone is present" }
+                ]);
+            });
+        });
+
+        it("should require values if any of other properties is missing", function() {
+            return validator.validate(createOrder({ email: "a@b.c" })).then(errors => {
+                expect(errors.map(error => error.constraints)).to.be.eql([
+                    { requiredWithout: "postalAddress should not be empty when any of phone,email is not present" }
+                ]);
+            });
+        });
+
+        it("should skip other validations of missing values which are not required", function() {
+            return validator.validate(createOrder({ deliveryType: "pickup", phone: "123", phoneCountryCode: "+992", email: "a@b.c" })).then(errors => {
+                expect(errors).to.be.eql([]);
+            });
+        });
+
+        it("should perform other validations of the present values", function() {
+            return validator.validate(createOrder({ deliveryType: "courier", address: "abc", phone: "1", phoneCountryCode: "1", email: "a" }), { skipMissingProperties: true })
+                .then(errors => {
+                    expect(errors.map(error => error.constraints)).to.be.eql([
+                        { minLength: "address must be longer than or equal to 5 characters" }
+                    ]);
+                });
+        });
+
+    });
+
+});
@@ -0,0 +1,189 @@
+import "es6-shim";
+import {IsUrl, IsUUID, Matches, MaxLength, MinLength, ValidateKeys, ValidateNested} from "../../src/decorator/decorators";
+import {classToJsonSchema} from "../../src";
+import {getFromContainer} from "../../src/container";
+import {Validator} from "../../src/validation/Validator";
+import {MetadataStorage} from "../../src/metadata/MetadataStorage";
+import {expect} from "chai";
+
+// -------------------------------------------------------------------------
+// Setup
+// -------------------------------------------------------------------------
+
+const validator = new Validator();
+
+const firstId = "3b8f2a4e-6c1d-4f7a-9b2e-0d5c8e1f2a3b";
+
+class Photo {
+
+    @IsUrl()
+    url: string;
+
+}
+
+class Album {
+
+    @ValidateKeys(IsUUID("4"))
+    @ValidateNested({ each: true })
+    photosById: Map<string, Photo>;
+
+    @ValidateKeys([MinLength(2), Matches(/^[a-z]+$/)])
+    @MaxLength(10, { each: true, dictionary: true })
+    captions: { [language: string]: string };
+
+    @ValidateNested({ dictionary: true, type: () => Photo })
+    covers: Record<string, Photo>;
+
+    @MinLength(2, { each: true, dictionary: true, itemErrors: true })
+    tags: Record<string, string>;
+
+}
+
+class Gallery {
+
+    @ValidateKeys(IsUUID("4"), { groups: ["photos"] })
+    photosById: Record<string, Photo>;
+
+}
+
+function createPhoto(url: string): Photo {
+    const photo = new Photo();
+    photo.url = url;
+    return photo;
+}
+
+// -------------------------------------------------------------------------
+// Specifications
+// -------------------------------------------------------------------------
+
+describe("dictionary validation", function() {
+
+    it("should validate keys of the map", function() {
+        const album = Object.assign(new Album(), {
+            photosById: new Map([[firstId, createPhoto("http://example.com/a.png")], ["first", createPhoto("http://example.com/b.png")]])
+        });
+        return validator.validate(album, { skipMissingProperties: true }).then(errors => {
+            expect(errors.length).to.be.equal(1);
+            expect(errors[0].children.map(error => [error.property, error.path, error.pointer, error.constraints])).to.be.eql([
+                ["first", "photosById[first]", "/photosById/first", { isUuid: "key of photosById[first] must be an UUID" }]
+            ]);
+            expect(errors[0].children[0].issues[0].value).to.be.equal("first");
+        });
+    });
+
+    it("should report failures of the entry key and value in a single error", function() {
+        const album = Object.assign(new Album(), {
+            photosById: new Map([[firstId, createPhoto("http://example.com/a.png")], ["first", createPhoto("invalid")]])
+        });
+        return validator.validate(album, { skipMissingProperties: true }).then(errors => {
+            expect(errors[0].children.length).to.be.equal(1);
+            expect(errors[0].children[0].constraints).to.be.eql({ isUuid: "key of photosById[first] must be an UUID" });
+            expect(errors[0].children[0].children.map(error => error.path)).to.be.eql(["photosById[first].url"]);
+        });
+    });
+
+    it("should validate keys of the plain object with all given decorators", function() {
+        const album = Object.assign(new Album(), { captions: { en: "Summer", e: "Summer", "DE": "Sommer" } });
+        return validator.validate(album, { skipMissingProperties: true }).then(errors => {
+            expect(errors[0].children.map(error => [error.path, error.constraints])).to.be.eql([
+                ["captions[e]", { minLength: "key of captions[e] must be longer than or equal to 2 characters" }],
+                ["captions[DE]", { matches: "key of captions[DE] must match /^[a-z]+$/ regular expression" }]
+            ]);
+        });
+    });
+
+    it("should validate keys with the groups of the keys validation", function() {
+        const gallery = Object.assign(new Gallery(), { photosById: { first: createPhoto("http://example.com/a.png") } });
+        return validator.validate(gallery, { groups: ["photos"] }).then(errors => {
+            expect(errors[0].children.map(error => [error.path, error.constraints])).to.be.eql([
+                ["photosById[first]", { isUuid: "key of photosById[first] must be an UUID" }]
+            ]);
+            return validator.validate(gallery, { groups: ["covers"] });
+        }).then(errors => {
+            expect(errors).to.be.eql([]);
+        });
+    });
+
+    it("should validate keys registered in the separate metadata storage", function() {
+        const storage = new MetadataStorage();
+        class Translations {
+            @ValidateKeys(IsUUID("4"), { metadataStorage: storage })
+            captions: Record<string, string>;
+        }
+        const translations = Object.assign(new Translations(), { captions: { [firstId]: "Summer", notuuid: "Winter" } });
+        return new Validator(storage).validate(translations).then(errors => {
+            expect(errors[0].children.map(error => [error.path, error.constraints])).to.be.eql([
+                ["captions[notuuid]", { isUuid: "key of captions[notuuid] must be an UUID" }]
+            ]);
+        });
+    });
+
+    it("should not leave metadatas of the key decorators in the storages", function() {
+        const defaultStorage = getFromContainer(MetadataStorage);
+        const storage = new MetadataStorage();
+        const albumPlan = defaultStorage.getValidationPlan(Album, undefined);
+        const metadatasCount = defaultStorage.snapshot().validationMetadatas.length;
+        class Translations {
+            @ValidateKeys([MinLength(2), IsUUID("4", { metadataStorage: storage })], { metadataStorage: storage })
+            captions: Record<string, string>;
+        }
+        expect(defaultStorage.snapshot().validationMetadatas.length).to.be.equal(metadatasCount);
+        expect(defaultStorage.getValidationPlan(Album, undefined)).to.be.equal(albumPlan);
+        expect(storage.snapshot().validationMetadatas.map(metadata => metadata.type)).to.be.eql(["keysValidation"]);
+
+        const translations = Object.assign(new Translations(), { captions: { e: "Summer" } });
+        expect(new Validator(storage).validateSync(translations)[0].children[0].constraints).to.have.keys(["minLength", "isUuid"]);
+        storage.clear();
+        expect(new Validator(storage).validateSync(translations)).to.be.eql([]);
+    });
+
+    it("should validate each value of the dictionary", function() {
+        const album = Object.assign(new Album(), { captions: { en: "Summer holidays", de: "Sommer" } });
+        return validator.validate(album, { skipMissingProperties: true }).then(errors => {
+            expect(errors.map(error => error.constraints)).to.be.eql([
+                { maxLength: "each value in captions must be shorter than or equal to 10 characters" }
+            ]);
+        });
+    });
+
+    it("should report failures of the dictionary values per entry", function() {
+        const album = Object.assign(new Album(), { tags: { summer: "beach", winter: "s" } });
+        return validator.validate(album, { skipMissingProperties: true }).then(errors => {
+            expect(errors[0].children.map(error => [error.path, error.value, error.constraints])).to.be.eql([
+                ["tags[winter]", "s", { minLength: "tags[winter] must be longer than or equal to 2 characters" }]
+            ]);
+        });
+    });
+
+    it("should validate nested objects of the dictionary", function() {
+        const album = Object.assign(new Album(), {
+            covers: { front: createPhoto("http://example.com/a.png"), back: { url: "invalid" } }
+        });
+        return validator.validate(album, { skipMissingProperties: true }).then(errors => {
+            expect(errors[0].children.length).to.be.equal(1);
+            expect(errors[0].children[0].property).to.be.equal("back");
+            expect(errors[0].children[0].children.map(error => [error.path, error.pointer])).to.be.eql([
+                ["covers[back].url", "/covers/back/url"]
+            ]);
+        });
+    });
+
+    it("should not treat plain objects as dictionaries by default", function() {
+        const album = Object.assign(new Album(), { photosById: { first: createPhoto("invalid") } });
+        return validator.validate(album, { skipMissingProperties: true }).then(errors => {
+            expect(errors[0].children.map(error => error.path)).to.be.eql(["photosById[first]"]);
+            expect(errors[0].children[0].children).to.be.eql([]);
+        });
+    });
+
+    it("should convert dictionaries and keys into json schema", function() {
+        const schema = classToJsonSchema(Album);
+        expect(schema.properties.captions).to.be.eql({
+            type: "object",
+            propertyNames: { type: "string", minLength: 2, pattern: "^[a-z]+$" },
+            additionalProperties: { type: "string", maxLength: 10 }
+        });
+        expect(schema.properties.covers).to.be.eql({ type: "object", additionalProperties: { $ref: "#/$defs/Photo" } });
+    });
+
+});
@@ -0,0 +1,134 @@
+import "es6-shim";
+import {IsInt, MaxLength, MinLength, Validate, ValidatorConstraint} from "../../src/decorator/decorators";
+import {ValidatorConstraintInterface} from "../../src/validation/ValidatorConstraintInterface";
+import {Validator} from "../../src/validation/Validator";
+import {expect} from "chai";
+
+// -------------------------------------------------------------------------
+// Setup
+// -------------------------------------------------------------------------
+
+const validator = new Validator();
+
+@ValidatorConstraint({ name: "isKnownTag", async: true })
+class IsKnownTagConstraint implements ValidatorConstraintInterface {
+
+    validate(tag: string) {
+        return new Promise<boolean>(resolve => setTimeout(() => resolve(tag !== "unknown"), 5));
+    }
+
+}
+
+class Post {
+
+    @MaxLength(5, { each: true })
+    @MinLength(2, { each: true })
+    tags: string[];
+
+    @IsInt({ each: true, itemErrors: false })
+    ratings: number[];
+
+    @IsInt({ each: true, itemErrors: true })
+    votes: Set<any>;
+
+    @MinLength(2, { each: true, itemErrors: true })
+    translations: Map<string, string>;
+
+    @Validate(IsKnownTagConstraint, { each: true, itemErrors: true })
+    categories: string[];
+
+    @MaxLength(1, { each: true })
+    @MinLength(2, { each: true, itemErrors: true, bail: true })
+    keywords: string[];
+
+}
+
+// -------------------------------------------------------------------------
+// Specifications
+// -------------------------------------------------------------------------
+
+describe("item errors", function() {
+
+    it("should report failures of each item as child errors", function() {
+        const post = Object.assign(new Post(), { tags: ["ok", "a", "ok", "too long"] });
+        return validator.validate(post, { itemErrors: true, skipMissingProperties: true }).then(errors => {
+            expect(errors.length).to.be.equal(1);
+            expect(errors[0].property).to.be.equal("tags");
+            expect(errors[0].constraints).to.be.undefined;
+            expect(errors[0].children.map(error => [error.property, error.path, error.pointer, error.value])).to.be.eql([
+                ["1", "tags[1]", "/tags/1", "a"],
+                ["3", "tags[3]", "/tags/3", "too long"]
+            ]);
+            expect(errors[0].children.map(error => error.constraints)).to.be.eql([
+                { minLength: "tags[1] must be longer than or equal to 2 characters" },
+                { maxLength: "tags[3] must be shorter than or equal to 5 characters" }
+            ]);
+            expect(errors[0].children[0].issues[0].path).to.be.equal("tags[1]");
+        });
+    });
+
+    it("should report all failures of the item in a single child error", function() {
+        const post = Object.assign(new Post(), { tags: ["a", "b"] });
+        return validator.validate(post, { itemErrors: true, skipMissingProperties: true }).then(errors => {
+            expect(errors[0].children.map(error => error.property)).to.be.eql(["0", "1"]);
+            expect(Object.keys(errors[0].children[0].constraints)).to.be.eql(["minLength"]);
+        });
+    });
+
+    it("should report failures of the whole collection by default", function() {
+        const post = Object.assign(new Post(), { tags: ["a"], ratings: [1.5] });
+        return validator.validate(post, { skipMissingProperties: true }).then(errors => {
+            expect(errors.map(error => error.constraints)).to.be.eql([
+                { minLength: "each value in tags must be longer than or equal to 2 characters" },
+                { isInt: "each value in ratings must be an integer number" }
+            ]);
+            expect(errors[0].children).to.be.eql([]);
+        });
+    });
+
+    it("should prefer the decorator option over the validator option", function() {
+        const post = Object.assign(new Post(), { ratings: [1, 1.5], votes: new Set([1, "x"]) });
+        return validator.validate(post, { itemErrors: true, skipMissingProperties: true }).then(errors => {
+            expect(errors.map(error => error.constraints)).to.be.eql([
+                { isInt: "each value in ratings must be an integer number" },
+                undefined
+            ]);
+            expect(errors[1].children.map(error => [error.path, error.constraints])).to.be.eql([
+                ["votes[1]", { isInt: "votes[1] must be an integer number" }]
+            ]);
+        });
+    });
+
+    it("should key errors of map items by their keys", function() {
+        const post = Object.assign(new Post(), { translations: new Map([["en", "Hello"], ["de", "H"]]) });
+        return validator.validate(post, { skipMissingProperties: true }).then(errors => {
+            expect(errors[0].children.map(error => [error.property, error.path, error.pointer])).to.be.eql([
+                ["de", "translations[de]", "/translations/de"]
+            ]);
+        });
+    });
+
+    it("should report failures of async custom constraints per item", function() {
+        const post = Object.assign(new Post(), { categories: ["news", "unknown"] });
+        return validator.validate(post, { skipMissingProperties: true }).then(errors => {
+            expect(errors[0].children.map(error => [error.path, error.constraints])).to.be.eql([
+                ["categories[1]", { isKnownTag: "" }]
+            ]);
+        });
+    });
+
+    it("should skip remaining validations when bail validation fails on any item", function() {
+        const post = Object.assign(new Post(), { keywords: ["ab", "a"] });
+        return validator.validate(post, { skipMissingProperties: true }).then(errors => {
+            expect(errors[0].constraints).to.be.undefined;
+            expect(errors[0].children.map(error => error.path)).to.be.eql(["keywords[1]"]);
+        });
+    });
+
+    it("should report item errors in sync validation", function() {
+        const post = Object.assign(new Post(), { votes: [1, "2"] });
+        const errors = validator.validateSync(post, { skipMissingProperties: true });
+        expect(errors[0].children.map(error => error.path)).to.be.eql(["votes[1]"]);
+    });
+
+});
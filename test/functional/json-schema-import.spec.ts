@@ -0,0 +1,145 @@
+import "es6-shim";
+import {registerJsonSchema, JsonSchema} from "../../src";
+import {Validator} from "../../src/validation/Validator";
+import {expect} from "chai";
+
+// -------------------------------------------------------------------------
+// Setup
+// -------------------------------------------------------------------------
+
+const validator = new Validator();
+
+// -------------------------------------------------------------------------
+// Specifications
+// -------------------------------------------------------------------------
+
+describe("json schema import", function() {
+
+    const userJsonSchema: JsonSchema = {
+        type: "object",
+        properties: {
+            name: { type: "string", minLength: 2, maxLength: 10 },
+            email: { type: "string", format: "email" },
+            age: { type: "integer", minimum: 18, maximum: 150 },
+            role: { enum: ["admin", "user"] },
+            code: { type: "string", pattern: "^[A-Z]+$" },
+            nickname: { type: ["string", "null"] },
+            tags: { type: "array", items: { type: "string", minLength: 2 }, minItems: 1, uniqueItems: true },
+            address: { $ref: "#/$defs/ImportedAddress" }
+        },
+        required: ["name", "email", "address"],
+        $defs: {
+            ImportedAddress: {
+                type: "object",
+                properties: {
+                    city: { type: "string" }
+                },
+                required: ["city"]
+            }
+        }
+    };
+
+    const schemas = registerJsonSchema(userJsonSchema, "ImportedUser");
+
+    it("should register a validation schema per definition", function() {
+        expect(schemas.map(schema => schema.name)).to.be.eql(["ImportedUser", "ImportedAddress"]);
+        expect(schemas[1].properties.city.map(validation => validation.type)).to.be.eql(["isDefined", "isString"]);
+    });
+
+    it("should validate valid object without errors", function() {
+        return validator.validate("ImportedUser", {
+            name: "Umed",
+            email: "umed@example.com",
+            age: 30,
+            role: "admin",
+            code: "ABC",
+            nickname: null,
+            tags: ["ts", "js"],
+            address: { city: "Dushanbe" }
+        }).then(errors => {
+            expect(errors).to.be.eql([]);
+        });
+    });
+
+    it("should report keyword violations using validation types", function() {
+        return validator.validate("ImportedUser", {
+            name: "U",
+            email: "not-an-email",
+            age: 20.5,
+            role: "guest",
+            code: "abc",
+            tags: ["t", "t"],
+            address: "Dushanbe"
+        }).then(errors => {
+            const constraints: { [property: string]: string[] } = {};
+            errors.forEach(error => constraints[error.property] = Object.keys(error.constraints));
+            expect(constraints).to.be.eql({
+                name: ["minLength"],
+                email: ["isEmail"],
+                age: ["isInt"],
+                role: ["isIn"],
+                code: ["matches"],
+                tags: ["arrayUnique", "minLength"],
+                address: ["isObject"]
+            });
+        });
+    });
+
+    it("should require required properties only", function() {
+        return validator.validate("ImportedUser", {}).then(errors => {
+            expect(errors.map(error => error.property)).to.be.eql(["name", "email", "address"]);
+            expect(errors[0].constraints.isDefined).to.be.equal("name should not be null or undefined");
+        });
+    });
+
+    it("should validate referenced and inline nested objects with their own schemas", function() {
+        registerJsonSchema({
+            type: "object",
+            properties: {
+                owner: { $ref: "#" },
+                location: {
+                    type: "object",
+                    properties: { lat: { type: "number" } },
+                    required: ["lat"]
+                }
+            }
+        }, "ImportedPlace");
+
+        return validator.validate("ImportedPlace", { owner: { location: {} }, location: { lat: "1" } }).then(errors => {
+            expect(errors.length).to.be.equal(2);
+            expect(errors[0].property).to.be.equal("owner");
+            expect(errors[0].children[0].property).to.be.equal("location");
+            expect(errors[0].children[0].children[0].constraints).to.have.keys(["isDefined", "isNumber"]);
+            expect(errors[1].property).to.be.equal("location");
+            expect(errors[1].children[0].constraints).to.have.keys(["isNumber"]);
+        });
+    });
+
+    it("should not validate references to primitive definitions as nested objects", function() {
+        registerJsonSchema({
+            type: "object",
+            properties: {
+                status: { $ref: "#/$defs/ImportedStatus" },
+                history: { type: "array", items: { $ref: "#/$defs/ImportedStatus" } }
+            },
+            $defs: {
+                ImportedStatus: { type: "string", enum: ["active", "blocked"] }
+            }
+        }, "ImportedAccount");
+        return validator.validate("ImportedAccount", { status: "active", history: ["blocked"] }).then(errors => {
+            expect(errors).to.be.eql([]);
+            return validator.validate("ImportedAccount", { status: "deleted", history: ["active", "deleted"] });
+        }).then(errors => {
+            expect(errors.map(error => [error.property, Object.keys(error.constraints)])).to.be.eql([
+                ["status", ["isIn"]],
+                ["history", ["isIn"]]
+            ]);
+        });
+    });
+
+    it("should throw an error on unresolvable reference", function() {
+        expect(() => registerJsonSchema({ properties: { a: { $ref: "#/$defs/Missing" } } }, "BrokenImport"))
+            .to.throw("JSON Schema BrokenImport has unresolvable reference #/$defs/Missing");
+    });
+
+});
@@ -0,0 +1,229 @@
+import "es6-shim";
+import "reflect-metadata";
+import {
+    ArrayMinSize,
+    ArrayUnique,
+    IsDefined,
+    IsEmail,
+    IsEnum,
+    IsIn,
+    IsInstance,
+    IsInt,
+    IsOptional,
+    IsString,
+    Length,
+    Matches,
+    Max,
+    Min,
+    MinLength,
+    ValidateNested
+} from "../../src/decorator/decorators";
+import {classToJsonSchema, registerDecorator, ValidationOptions} from "../../src";
+import {JsonSchemaConverter} from "../../src/json-schema/JsonSchemaConverter";
+import {expect} from "chai";
+
+// -------------------------------------------------------------------------
+// Specifications
+// -------------------------------------------------------------------------
+
+describe("json schema", function() {
+
+    it("should convert common decorators into json schema keywords", function() {
+        enum Role { Admin = "admin", User = "user" }
+
+        class User {
+            @IsString()
+            @Length(2, 20)
+            name: string;
+
+            @IsInt()
+            @Min(0)
+            @Max(150)
+            age: number;
+
+            @IsIn(["male", "female"])
+            gender: string;
+
+            @IsEnum(Role)
+            role: Role;
+
+            @Matches(/^\d+$/)
+            code: string;
+
+            @IsEmail()
+            email: string;
+        }
+
+        expect(classToJsonSchema(User)).to.be.eql({
+            $schema: JsonSchemaConverter.SCHEMA_DIALECT,
+            type: "object",
+            properties: {
+                name: { type: "string", minLength: 2, maxLength: 20 },
+                age: { type: "integer", minimum: 0, maximum: 150 },
+                gender: { enum: ["male", "female"] },
+                role: { enum: ["admin", "user"] },
+                code: { type: "string", pattern: "^\\d+$" },
+                email: { type: "string", format: "email" }
+            },
+            required: ["name", "age", "gender", "role", "code", "email"]
+        });
+    });
+
+    it("should not mark optional properties as required", function() {
+        class Post {
+            @IsOptional()
+            @IsString()
+            title: string;
+
+            @IsDefined()
+            text: string;
+        }
+
+        const schema = classToJsonSchema(Post);
+        expect(schema.required).to.be.eql(["text"]);
+        expect(classToJsonSchema(Post, { skipMissingProperties: true }).required).to.be.eql(["text"]);
+    });
+
+    it("should convert array decorators and each option", function() {
+        class Post {
+            @ArrayMinSize(1)
+            @ArrayUnique()
+            @MinLength(3, { each: true })
+            tags: string[];
+        }
+
+        expect(classToJsonSchema(Post).properties.tags).to.be.eql({
+            type: "array",
+            minItems: 1,
+            uniqueItems: true,
+            items: { type: "string", minLength: 3 }
+        });
+    });
+
+    it("should put nested classes into $defs and reference them", function() {
+        class Tag {
+            @IsString()
+            name: string;
+        }
+
+        class Author {
+            @IsString()
+            name: string;
+        }
+
+        class Post {
+            @ValidateNested()
+            @IsInstance(Author)
+            author: Author;
+
+            @ValidateNested({ each: true })
+            @IsInstance(Tag, { each: true })
+            tags: Tag[];
+
+            @ValidateNested()
+            @IsInstance(Post)
+            @IsOptional()
+            parent: Post;
+        }
+
+        const schema = classToJsonSchema(Post);
+        expect(schema.properties).to.be.eql({
+            author: { $ref: "#/$defs/Author", type: "object" },
+            tags: { type: "array", items: { $ref: "#/$defs/Tag", type: "object" } },
+            parent: { $ref: "#", type: "object" }
+        });
+        expect(schema.$defs).to.be.eql({
+            Author: { type: "object", properties: { name: { type: "string" } }, required: ["name"] },
+            Tag: { type: "object", properties: { name: { type: "string" } }, required: ["name"] }
+        });
+    });
+
+    it("should convert nested arrays and classes by the emitted property types", function() {
+        class Line {
+            @IsString()
+            product: string;
+        }
+
+        class Invoice {
+            @ValidateNested()
+            lines: Line[];
+
+            @ValidateNested({ type: () => Line })
+            typedLines: Line[];
+
+            @ValidateNested()
+            mainLine: Line;
+
+            @ValidateNested()
+            attachment: any;
+        }
+
+        const schema = classToJsonSchema(Invoice);
+        expect(schema.properties).to.be.eql({
+            lines: { type: "array" },
+            typedLines: { type: "array", items: { $ref: "#/$defs/Line" } },
+            mainLine: { $ref: "#/$defs/Line" },
+            attachment: {}
+        });
+    });
+
+    it("should include inherited metadata and respect groups", function() {
+        class Base {
+            @IsString({ groups: ["create"] })
+            id: string;
+        }
+
+        class Derived extends Base {
+            @MinLength(5, { groups: ["update"] })
+            name: string;
+        }
+
+        expect(Object.keys(classToJsonSchema(Derived).properties)).to.be.eql(["name", "id"]);
+        expect(Object.keys(classToJsonSchema(Derived, { groups: ["create"] }).properties)).to.be.eql(["id"]);
+    });
+
+    it("should put conflicting keywords into allOf", function() {
+        class Post {
+            @Matches(/^a/)
+            @Matches(/b$/)
+            title: string;
+        }
+
+        expect(classToJsonSchema(Post).properties.title).to.be.eql({
+            type: "string",
+            pattern: "b$",
+            allOf: [{ pattern: "^a" }]
+        });
+    });
+
+    it("should use additional converters for custom constraints", function() {
+        function IsHexString(validationOptions?: ValidationOptions) {
+            return function (object: Object, propertyName: string) {
+                registerDecorator({
+                    name: "isHexString",
+                    target: object.constructor,
+                    propertyName: propertyName,
+                    options: validationOptions,
+                    validator: {
+                        validate(value: any) {
+                            return /^[0-9a-f]*$/.test(value);
+                        }
+                    }
+                });
+            };
+        }
+
+        class Color {
+            @IsHexString()
+            value: string;
+        }
+
+        expect(classToJsonSchema(Color).properties.value).to.be.eql({});
+        expect(classToJsonSchema(Color, {
+            additionalConverters: {
+                isHexString: () => ({ type: "string", pattern: "^[0-9a-f]*$" })
+            }
+        }).properties.value).to.be.eql({ type: "string", pattern: "^[0-9a-f]*$" });
+    });
+
+});
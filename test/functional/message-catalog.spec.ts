@@ -0,0 +1,200 @@
+import "es6-shim";
+import {IsDefined, Matches, MinLength, MaxLength, IsString, Validate, ValidatorConstraint} from "../../src/decorator/decorators";
+import {ValidatorConstraintInterface} from "../../src/validation/ValidatorConstraintInterface";
+import {Validator} from "../../src/validation/Validator";
+import {MessageCatalogStorage} from "../../src/message-catalog/MessageCatalogStorage";
+import {MessageFormatter} from "../../src/message-catalog/MessageFormatter";
+import {registerMessageCatalog} from "../../src";
+import {getFromContainer} from "../../src/container";
+import {expect} from "chai";
+
+// -------------------------------------------------------------------------
+// Setup
+// -------------------------------------------------------------------------
+
+const validator = new Validator();
+
+@ValidatorConstraint({ name: "isCatalogCode" })
+class IsCatalogCodeConstraint implements ValidatorConstraintInterface {
+
+    validate(value: any) {
+        return value === "code";
+    }
+
+    defaultMessage() {
+        return "$property must be a code";
+    }
+
+}
+
+@ValidatorConstraint({ name: "isCatalogSku" })
+class IsCatalogSkuConstraint implements ValidatorConstraintInterface {
+
+    validate(value: any) {
+        return /^[A-Z]+-\d+$/.test(value);
+    }
+
+    defaultMessage() {
+        return "$property must be a stock keeping unit";
+    }
+
+}
+
+class Article {
+
+    @MinLength(3)
+    title: string;
+
+    @MaxLength(2, { each: true })
+    tags: string[];
+
+    @IsString()
+    @IsDefined()
+    author: string;
+
+    @Validate(IsCatalogCodeConstraint)
+    code: string;
+
+    @Validate(IsCatalogSkuConstraint)
+    sku: string;
+
+}
+
+class Pattern {
+
+    @Matches(/^a{2}$/, { message: "{property} must be {value} / $constraint1" })
+    text: string;
+
+}
+
+function createArticle(): Article {
+    const article = new Article();
+    article.title = "ab";
+    article.tags = ["abc"];
+    article.code = "abc";
+    article.sku = "abc";
+    return article;
+}
+
+registerMessageCatalog("de", {
+    eachPrefix: "jeder Wert in ",
+    messages: {
+        minLength: "{property} muss mindestens {constraint1, plural, one {# Zeichen} other {# Zeichen}} lang sein",
+        maxLength: "$property darf höchstens $constraint1 Zeichen lang sein",
+        isDefined: "{property} ist erforderlich",
+        isCatalogCode: "{property} muss ein Code sein"
+    }
+});
+
+registerMessageCatalog("en", {
+    messages: {
+        isCatalogSku: "{property} must be a SKU"
+    }
+});
+
+registerMessageCatalog("de-AT", {
+    messages: {
+        isDefined: "{property} ist verpflichtend"
+    }
+});
+
+registerMessageCatalog("de-CH", {
+    fallback: "de-AT",
+    messages: {}
+});
+
+// -------------------------------------------------------------------------
+// Specifications
+// -------------------------------------------------------------------------
+
+describe("message catalogs", function() {
+
+    function getMessages(locale: string) {
+        return validator.validate(createArticle(), { locale: locale }).then(errors => {
+            const messages: { [property: string]: { [type: string]: string } } = {};
+            errors.forEach(error => messages[error.property] = error.constraints);
+            return messages;
+        });
+    }
+
+    it("should use messages of the given locale", function() {
+        return getMessages("de").then(messages => {
+            expect(messages.title).to.be.eql({ minLength: "title muss mindestens 3 Zeichen lang sein" });
+            expect(messages.tags).to.be.eql({ maxLength: "jeder Wert in tags darf höchstens 2 Zeichen lang sein" });
+            expect(messages.author.isDefined).to.be.equal("author ist erforderlich");
+        });
+    });
+
+    it("should fallback to the parent locale and then to the default messages", function() {
+        return getMessages("de-AT").then(messages => {
+            expect(messages.author).to.be.eql({
+                isDefined: "author ist verpflichtend",
+                isString: "author must be a string"
+            });
+            expect(messages.title.minLength).to.be.equal("title muss mindestens 3 Zeichen lang sein");
+        });
+    });
+
+    it("should follow explicit fallback of the catalog", function() {
+        return getMessages("de_CH").then(messages => {
+            expect(messages.author.isDefined).to.be.equal("author ist verpflichtend");
+        });
+    });
+
+    it("should use catalog messages of custom constraints", function() {
+        return Promise.all([getMessages("de"), getMessages(undefined)]).then(([germanMessages, defaultMessages]) => {
+            expect(germanMessages.code).to.be.eql({ isCatalogCode: "code muss ein Code sein" });
+            expect(defaultMessages.code).to.be.eql({ isCatalogCode: "code must be a code" });
+        });
+    });
+
+    it("should prefer own messages of custom constraints to the default locale catalog", function() {
+        return Promise.all([getMessages("de"), getMessages(undefined)]).then(([germanMessages, defaultMessages]) => {
+            expect(germanMessages.sku).to.be.eql({ isCatalogSku: "sku must be a stock keeping unit" });
+            expect(defaultMessages.sku).to.be.eql({ isCatalogSku: "sku must be a stock keeping unit" });
+        });
+    });
+
+    it("should not format messages which aren't taken from the catalogs", function() {
+        const pattern = Object.assign(new Pattern(), { text: "aaa" });
+        return validator.validate(pattern, { locale: "de" }).then(errors => {
+            expect(errors[0].constraints).to.be.eql({ matches: "{property} must be {value} / /^a{2}$/" });
+        });
+    });
+
+    it("should build fallback chain of the locale", function() {
+        const storage = getFromContainer(MessageCatalogStorage);
+        expect(storage.getFallbackChain("de-AT")).to.be.eql(["de-at", "de", "en"]);
+        expect(storage.getFallbackChain("de-CH")).to.be.eql(["de-ch", "de-at", "de", "en"]);
+        expect(storage.getFallbackChain(undefined)).to.be.eql(["en"]);
+    });
+
+});
+
+describe("message formatter", function() {
+
+    it("should replace placeholders of known arguments only", function() {
+        expect(MessageFormatter.format("{property} of {target} is {unknown}", { property: "name", target: "User" }))
+            .to.be.equal("name of User is {unknown}");
+    });
+
+    it("should select plural forms", function() {
+        const message = "{count, plural, =0 {no items} one {# item} other {# items}}";
+        expect(MessageFormatter.format(message, { count: 0 }, "en")).to.be.equal("no items");
+        expect(MessageFormatter.format(message, { count: 1 }, "en")).to.be.equal("1 item");
+        expect(MessageFormatter.format(message, { count: 5 }, "en")).to.be.equal("5 items");
+    });
+
+    it("should select plural forms by the locale rules", function() {
+        const message = "{count, plural, one {# znak} few {# znaki} many {# znaków} other {# znaku}}";
+        expect(MessageFormatter.format(message, { count: 3 }, "pl")).to.be.equal("3 znaki");
+        expect(MessageFormatter.format(message, { count: 5 }, "pl")).to.be.equal("5 znaków");
+    });
+
+    it("should select messages and format nested arguments", function() {
+        const message = "{role, select, admin {administrator {name}} other {user}}";
+        expect(MessageFormatter.format(message, { role: "admin", name: "Umed" })).to.be.equal("administrator Umed");
+        expect(MessageFormatter.format(message, { role: "guest", name: "Umed" })).to.be.equal("user");
+    });
+
+});
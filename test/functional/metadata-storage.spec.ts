@@ -0,0 +1,148 @@
+import "es6-shim";
+import {IsInt, MinLength, SanitizeTrim, Validate, ValidatorConstraint} from "../../src/decorator/decorators";
+import {ValidatorConstraintInterface} from "../../src/validation/ValidatorConstraintInterface";
+import {MetadataStorage} from "../../src/metadata/MetadataStorage";
+import {Validator} from "../../src/validation/Validator";
+import {Sanitizer} from "../../src/sanitization/Sanitizer";
+import {JsonSchemaConverter} from "../../src/json-schema/JsonSchemaConverter";
+import {OpenApiConverter} from "../../src/json-schema/OpenApiConverter";
+import {getFromContainer} from "../../src/container";
+import {registerDecorator} from "../../src/register-decorator";
+import {ValidationOptions} from "../../src/decorator/ValidationOptions";
+import {expect} from "chai";
+
+// -------------------------------------------------------------------------
+// Setup
+// -------------------------------------------------------------------------
+
+const metadataStorage = new MetadataStorage();
+const scopedValidator = new Validator(metadataStorage);
+const validator = new Validator();
+
+@ValidatorConstraint({ name: "isEven" })
+class IsEvenConstraint implements ValidatorConstraintInterface {
+
+    validate(value: number) {
+        return value % 2 === 0;
+    }
+
+}
+
+@ValidatorConstraint({ name: "isOdd", metadataStorage: metadataStorage })
+class IsOddConstraint implements ValidatorConstraintInterface {
+
+    validate(value: number) {
+        return value % 2 === 1;
+    }
+
+}
+
+function IsPositiveNumber(validationOptions?: ValidationOptions) {
+    return function (object: Object, propertyName: string) {
+        registerDecorator({
+            name: "isPositiveNumber",
+            target: object.constructor,
+            propertyName: propertyName,
+            options: validationOptions,
+            validator: { validate: (value: any) => value > 0 }
+        });
+    };
+}
+
+class Counter {
+
+    @MinLength(3, { metadataStorage: metadataStorage })
+    @SanitizeTrim(undefined, { metadataStorage: metadataStorage })
+    name: string;
+
+    @IsInt()
+    @Validate(IsEvenConstraint, { metadataStorage: metadataStorage })
+    @Validate(IsOddConstraint, { metadataStorage: metadataStorage, message: "$property must be odd" })
+    @IsPositiveNumber({ metadataStorage: metadataStorage })
+    count: number;
+
+}
+
+function createCounter(name: string, count: number): Counter {
+    return Object.assign(new Counter(), { name: name, count: count });
+}
+
+// -------------------------------------------------------------------------
+// Specifications
+// -------------------------------------------------------------------------
+
+describe("metadata storage", function() {
+
+    it("should validate with validations registered in the given storage only", function() {
+        const errors = scopedValidator.validateSync(createCounter("ab", 1.5));
+        expect(errors.map(error => Object.keys(error.constraints))).to.be.eql([["minLength"], ["isOdd", "isEven"]]);
+        expect(validator.validateSync(createCounter("ab", 1.5)).map(error => error.constraints)).to.be.eql([
+            { isInt: "count must be an integer number" }
+        ]);
+    });
+
+    it("should pass custom decorators options to the given storage", function() {
+        const errors = scopedValidator.validateSync(createCounter("abc", -2));
+        expect(errors.map(error => error.constraints)).to.be.eql([
+            { isOdd: "count must be odd", isPositiveNumber: "" }
+        ]);
+    });
+
+    it("should sanitize with sanitizations registered in the given storage only", function() {
+        expect(new Sanitizer(metadataStorage).sanitize(createCounter(" abc ", 1)).name).to.be.equal("abc");
+        expect(new Sanitizer().sanitize(createCounter(" abc ", 1)).name).to.be.equal(" abc ");
+    });
+
+    it("should convert validations registered in the given storage only into json schema", function() {
+        const schema = new JsonSchemaConverter({}, metadataStorage).convert(Counter);
+        expect(schema.properties).to.be.eql({ name: { type: "string", minLength: 3 }, count: {} });
+        expect(new JsonSchemaConverter().convert(Counter).properties).to.be.eql({ count: { type: "integer" } });
+        expect(new OpenApiConverter({}, metadataStorage).convert([Counter]).Counter.properties).to.be.eql(schema.properties);
+    });
+
+    it("should not warn about missing metadata of the created storage", function() {
+        const warn = console.warn;
+        const warnings: any[] = [];
+        console.warn = (...args: any[]) => warnings.push(args);
+        try {
+            expect(new Validator(new MetadataStorage()).validateSync(createCounter("ab", 1))).to.be.eql([]);
+        } finally {
+            console.warn = warn;
+        }
+        expect(warnings).to.be.eql([]);
+    });
+
+    describe("snapshots", function() {
+
+        const defaultStorage = getFromContainer(MetadataStorage);
+
+        it("should remove metadatas added after the snapshot", function() {
+            const snapshot = defaultStorage.snapshot();
+            class Draft {
+                @MinLength(10)
+                title: string;
+            }
+            expect(validator.validateSync(Object.assign(new Draft(), { title: "short" })).length).to.be.equal(1);
+
+            defaultStorage.restore(snapshot);
+            expect(validator.validateSync(Object.assign(new Draft(), { title: "short" }))).to.be.eql([]);
+            expect(validator.validateSync(createCounter("ab", 1.5)).length).to.be.equal(1);
+        });
+
+        it("should clear and restore all metadatas", function() {
+            const storage = new MetadataStorage();
+            storage.addValidationSchema({ name: "base", properties: { name: [{ type: "minLength", constraints: [3] }] } });
+            storage.addValidationSchema({ name: "child", extends: ["base"], properties: {} });
+            const snapshot = storage.snapshot();
+
+            storage.clear();
+            expect(storage.hasValidationMetaData).to.be.equal(false);
+            expect(storage.getValidationSchemaAncestors("child")).to.be.eql([]);
+
+            storage.restore(snapshot);
+            expect(new Validator(storage).validateSync("child", { name: "ab" }).map(error => error.property)).to.be.eql(["name"]);
+        });
+
+    });
+
+});
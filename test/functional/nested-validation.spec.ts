@@ -272,4 +272,84 @@ describe("nested validation", function () {
 
     });
 
+    describe("discriminator", function() {
+
+        class CardPayment {
+            type: string;
+
+            @MinLength(16)
+            cardNumber: string;
+        }
+
+        class BankPayment {
+            type: string;
+
+            @MinLength(15)
+            iban: string;
+        }
+
+        const discriminator = {
+            property: "type",
+            subTypes: [
+                { name: "card", value: CardPayment },
+                { name: "bank", value: BankPayment }
+            ]
+        };
+
+        class Order {
+            @ValidateNested({ discriminator: discriminator })
+            payment: CardPayment | BankPayment;
+
+            @ValidateNested({ discriminator: discriminator })
+            payments: Array<CardPayment | BankPayment>;
+
+            @ValidateNested({ discriminator: discriminator })
+            paymentsByName: Map<string, CardPayment | BankPayment>;
+        }
+
+        it("should validate plain objects with the class selected by the discriminator", function() {
+            const order = new Order();
+            order.payment = { type: "bank", iban: "DE89" } as any;
+            return validator.validate(order).then(errors => {
+                expect(errors.length).to.be.equal(1);
+                expect(errors[0].children.map(error => error.path)).to.be.eql(["payment.iban"]);
+                expect(errors[0].children[0].constraints).to.have.keys(["minLength"]);
+            });
+        });
+
+        it("should validate instances with the class selected by the discriminator", function() {
+            const order = new Order();
+            order.payment = Object.assign(new BankPayment(), { type: "card", cardNumber: "4111" });
+            return validator.validate(order).then(errors => {
+                expect(errors[0].children.map(error => error.path)).to.be.eql(["payment.cardNumber"]);
+            });
+        });
+
+        it("should fail if discriminator value is unknown", function() {
+            const order = new Order();
+            order.payment = { type: "cash" } as any;
+            return validator.validate(order).then(errors => {
+                expect(errors.length).to.be.equal(1);
+                expect(errors[0].constraints).to.be.eql({
+                    nestedDiscriminator: "nested property payment must have type equal to one of the following values: card,bank"
+                });
+                expect(errors[0].children).to.be.eql([]);
+            });
+        });
+
+        it("should validate each item of arrays and maps", function() {
+            const order = new Order();
+            order.payments = [{ type: "card", cardNumber: "4111111111111111" }, { type: "bank", iban: "DE89" }, { type: "cash" }] as any;
+            order.paymentsByName = new Map<string, any>([["main", { type: "card", cardNumber: "4111" }]]);
+            return validator.validate(order).then(errors => {
+                expect(errors.map(error => error.property)).to.be.eql(["payments", "paymentsByName"]);
+                expect(errors[0].children.map(error => error.path)).to.be.eql(["payments[1]", "payments[2]"]);
+                expect(errors[0].children[0].children.map(error => error.path)).to.be.eql(["payments[1].iban"]);
+                expect(errors[0].children[1].constraints).to.have.keys(["nestedDiscriminator"]);
+                expect(errors[1].children[0].children.map(error => error.path)).to.be.eql(["paymentsByName[main].cardNumber"]);
+            });
+        });
+
+    });
+
 });
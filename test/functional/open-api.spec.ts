@@ -0,0 +1,111 @@
+import "es6-shim";
+import "reflect-metadata";
+import {
+    Equals,
+    IsDefined,
+    IsEmail,
+    IsInstance,
+    IsISO8601,
+    IsOptional,
+    IsPositive,
+    IsString,
+    IsUrl,
+    IsUUID,
+    ValidateNested
+} from "../../src/decorator/decorators";
+import {classesToOpenApiSchemas} from "../../src";
+import {expect} from "chai";
+
+// -------------------------------------------------------------------------
+// Specifications
+// -------------------------------------------------------------------------
+
+describe("open api", function() {
+
+    class Address {
+        @IsString()
+        city: string;
+
+        @IsOptional()
+        @IsString()
+        street: string;
+    }
+
+    class User {
+        @IsUUID("4")
+        id: string;
+
+        @IsEmail()
+        email: string;
+
+        @IsOptional()
+        @IsUrl()
+        homepage: string;
+
+        @IsISO8601()
+        createdAt: string;
+
+        @IsDefined()
+        @ValidateNested()
+        @IsInstance(Address)
+        address: Address;
+
+        @IsOptional()
+        @ValidateNested({ each: true })
+        @IsInstance(User, { each: true })
+        friends: User[];
+    }
+
+    class Order {
+        @ValidateNested()
+        @IsInstance(User)
+        customer: User;
+
+        @IsPositive()
+        total: number;
+
+        @Equals("EUR")
+        currency: string;
+    }
+
+    it("should convert classes into component schemas referencing each other", function() {
+        const schemas = classesToOpenApiSchemas([User, Order]);
+
+        expect(Object.keys(schemas)).to.be.eql(["User", "Address", "Order"]);
+        expect(schemas.User).to.be.eql({
+            type: "object",
+            properties: {
+                id: { type: "string", format: "uuid" },
+                email: { type: "string", format: "email" },
+                homepage: { type: "string", format: "uri" },
+                createdAt: { type: "string", format: "date-time" },
+                address: { type: "object", allOf: [{ $ref: "#/components/schemas/Address" }] },
+                friends: { type: "array", items: { type: "object", allOf: [{ $ref: "#/components/schemas/User" }] } }
+            },
+            required: ["id", "email", "createdAt", "address"]
+        });
+        expect(schemas.Address.required).to.be.eql(["city"]);
+    });
+
+    it("should convert nested arrays declared without each option", function() {
+        class Cart {
+            @ValidateNested({ type: () => Address })
+            deliveries: Address[];
+        }
+
+        const schemas = classesToOpenApiSchemas([Cart]);
+        expect(schemas.Cart.properties.deliveries).to.be.eql({
+            type: "array",
+            items: { $ref: "#/components/schemas/Address" }
+        });
+    });
+
+    it("should replace keywords not supported by open api", function() {
+        const schemas = classesToOpenApiSchemas([Order]);
+
+        expect(schemas.Order.properties.total).to.be.eql({ minimum: 0, exclusiveMinimum: true });
+        expect(schemas.Order.properties.currency).to.be.eql({ enum: ["EUR"] });
+        expect(schemas.Order.properties.customer).to.be.eql({ type: "object", allOf: [{ $ref: "#/components/schemas/User" }] });
+    });
+
+});
@@ -0,0 +1,131 @@
+import "es6-shim";
+import "reflect-metadata";
+import {IsDefined, IsInt, IsString, MinLength, Validate, ValidateNested, ValidatorConstraint} from "../../src/decorator/decorators";
+import {ValidatorConstraintInterface} from "../../src/validation/ValidatorConstraintInterface";
+import {ValidationArguments} from "../../src/validation/ValidationArguments";
+import {Validator} from "../../src/validation/Validator";
+import {validate, validatePlain, validateSync} from "../../src";
+import {expect} from "chai";
+
+// -------------------------------------------------------------------------
+// Setup
+// -------------------------------------------------------------------------
+
+const validator = new Validator();
+
+@ValidatorConstraint({ name: "isTargetName" })
+class IsTargetNameConstraint implements ValidatorConstraintInterface {
+
+    validate(value: any, args: ValidationArguments) {
+        return value === args.targetName;
+    }
+
+}
+
+class Address {
+
+    @MinLength(5)
+    street: string;
+
+}
+
+class Tag {
+
+    @IsString()
+    name: string;
+
+}
+
+class CreateUser {
+
+    @IsString()
+    @IsDefined()
+    name: string;
+
+    @IsInt()
+    age: number;
+
+    @Validate(IsTargetNameConstraint)
+    kind: string;
+
+    @ValidateNested({ type: () => Address })
+    address: Address;
+
+    @ValidateNested({ type: () => Tag })
+    tags: Tag[];
+
+}
+
+class UpdateUser {
+
+    @ValidateNested()
+    address: Address;
+
+    @ValidateNested()
+    settings: any;
+
+}
+
+// -------------------------------------------------------------------------
+// Specifications
+// -------------------------------------------------------------------------
+
+describe("plain object validation", function() {
+
+    it("should validate plain object by decorators of the given class", function() {
+        return validator.validate(CreateUser, { name: 1, age: 20, kind: "CreateUser" }).then(errors => {
+            expect(errors.length).to.be.equal(1);
+            expect(errors[0].property).to.be.equal("name");
+            expect(errors[0].constraints).to.have.keys(["isString"]);
+        });
+    });
+
+    it("should pass the given class name as target name", function() {
+        return validator.validatePlain(CreateUser, { name: "Umed", age: 20, kind: "Object" }).then(errors => {
+            expect(errors.length).to.be.equal(1);
+            expect(errors[0].constraints).to.have.keys(["isTargetName"]);
+        });
+    });
+
+    it("should validate nested plain objects by their declared types", function() {
+        const user = { name: "Umed", age: 20, kind: "CreateUser", address: { street: "abc" }, tags: [{ name: "a" }, { name: 1 }] };
+        return validator.validate(CreateUser, user).then(errors => {
+            expect(errors.map(error => error.property)).to.be.eql(["address", "tags"]);
+            expect(errors[0].children.map(error => error.path)).to.be.eql(["address.street"]);
+            expect(errors[0].children[0].target).to.be.equal(user.address);
+            expect(errors[1].children[0].children.map(error => error.path)).to.be.eql(["tags[1].name"]);
+        });
+    });
+
+    it("should validate nested plain objects by their emitted property types", function() {
+        const errors = validator.validateSync(UpdateUser, { address: { street: "abc" } });
+        expect(errors.map(error => error.property)).to.be.eql(["address"]);
+        expect(errors[0].children.map(error => [error.path, Object.keys(error.constraints)])).to.be.eql([["address.street", ["minLength"]]]);
+    });
+
+    it("should report nested plain objects of unknown types", function() {
+        const errors = validator.validateSync(UpdateUser, { settings: { theme: "dark" } });
+        expect(errors.map(error => [error.property, error.constraints])).to.be.eql([
+            ["settings", { nestedType: "nested property settings can't be validated, as its type is unknown" }]
+        ]);
+        expect(validator.validateSync(UpdateUser, { settings: Object.assign(new Tag(), { name: "dark" }) })).to.be.eql([]);
+    });
+
+    it("should validate nested class instances by their own classes", function() {
+        const tag = new Tag();
+        tag.name = 1 as any;
+        return validator.validate(CreateUser, { name: "Umed", age: 20, kind: "CreateUser", address: tag }).then(errors => {
+            expect(errors[0].children.map(error => error.path)).to.be.eql(["address.name"]);
+        });
+    });
+
+    it("should validate plain objects using shortcut methods", function() {
+        const user = { name: "Umed", age: 1.5, kind: "CreateUser" };
+        return Promise.all([validate(CreateUser, user), validatePlain(CreateUser, user)]).then(([errors, plainErrors]) => {
+            expect(errors.map(error => error.property)).to.be.eql(["age"]);
+            expect(plainErrors.map(error => error.property)).to.be.eql(["age"]);
+            expect(validateSync(CreateUser, user).map(error => error.property)).to.be.eql(["age"]);
+        });
+    });
+
+});
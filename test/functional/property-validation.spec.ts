@@ -0,0 +1,147 @@
+import "es6-shim";
+import {IsDefined, IsEmail, IsString, Length, MinLength, ValidateIf, ValidateNested} from "../../src/decorator/decorators";
+import {Validator} from "../../src/validation/Validator";
+import {registerSchema, validateProperty} from "../../src";
+import {expect} from "chai";
+
+// -------------------------------------------------------------------------
+// Setup
+// -------------------------------------------------------------------------
+
+const validator = new Validator();
+
+class Address {
+
+    @Length(5, 5)
+    zip: string;
+
+    @IsString()
+    city: string;
+
+}
+
+class Item {
+
+    @IsString()
+    sku: string;
+
+}
+
+class Registration {
+
+    @IsEmail()
+    email: string;
+
+    @MinLength(8)
+    password: string;
+
+    @MinLength(8, { groups: ["admin"] })
+    secret: string;
+
+    @IsDefined()
+    @ValidateNested()
+    address: Address;
+
+    @ValidateIf(registration => registration.hasCompany)
+    @IsString()
+    company: string;
+
+    hasCompany: boolean;
+
+    @ValidateNested()
+    items: Item[];
+
+}
+
+function createRegistration(): Registration {
+    const address = new Address();
+    address.zip = "123";
+    address.city = 1 as any;
+    const invalidItem = new Item();
+    invalidItem.sku = 1 as any;
+
+    const registration = new Registration();
+    registration.email = "not-an-email";
+    registration.password = "short";
+    registration.secret = "short";
+    registration.address = address;
+    registration.company = 1 as any;
+    registration.hasCompany = false;
+    registration.items = [invalidItem, invalidItem];
+    return registration;
+}
+
+registerSchema({
+    name: "propertyValidationSchema",
+    properties: {
+        email: [{ type: "isEmail" }],
+        password: [{ type: "minLength", constraints: [8] }]
+    }
+});
+
+// -------------------------------------------------------------------------
+// Specifications
+// -------------------------------------------------------------------------
+
+describe("property validation", function() {
+
+    it("should validate only the given property", function() {
+        return validator.validateProperty(createRegistration(), "email").then(errors => {
+            expect(errors.length).to.be.equal(1);
+            expect(errors[0].property).to.be.equal("email");
+            expect(errors[0].constraints).to.have.keys(["isEmail"]);
+        });
+    });
+
+    it("should validate only the properties given in options", function() {
+        return validator.validate(createRegistration(), { properties: ["email", "password"] }).then(errors => {
+            expect(errors.map(error => error.property)).to.be.eql(["email", "password"]);
+        });
+    });
+
+    it("should validate only the given nested property", function() {
+        return validator.validateProperty(createRegistration(), "address.zip").then(errors => {
+            expect(errors.length).to.be.equal(1);
+            expect(errors[0].property).to.be.equal("address");
+            expect(errors[0].constraints).to.be.undefined;
+            expect(errors[0].children.map(error => error.path)).to.be.eql(["address.zip"]);
+        });
+    });
+
+    it("should validate all nested properties of the given property", function() {
+        return validator.validateProperty(createRegistration(), "address").then(errors => {
+            expect(errors[0].children.map(error => error.path)).to.be.eql(["address.zip", "address.city"]);
+        });
+    });
+
+    it("should validate only the given item of the array", function() {
+        return Promise.all([
+            validator.validateProperty(createRegistration(), "items[1].sku"),
+            validator.validateProperty(createRegistration(), "items.1")
+        ]).then(([errors, errorsOfDottedPath]) => {
+            expect(errors[0].children.map(error => error.path)).to.be.eql(["items[1]"]);
+            expect(errors[0].children[0].children.map(error => error.path)).to.be.eql(["items[1].sku"]);
+            expect(errorsOfDottedPath[0].children.map(error => error.path)).to.be.eql(["items[1]"]);
+        });
+    });
+
+    it("should respect groups and conditional validations", function() {
+        return Promise.all([
+            validator.validateProperty(createRegistration(), "secret", { groups: ["user"] }),
+            validator.validateProperty(createRegistration(), "secret", { groups: ["admin"] }),
+            validator.validateProperty(createRegistration(), "company")
+        ]).then(([errors, adminErrors, companyErrors]) => {
+            expect(errors).to.be.eql([]);
+            expect(adminErrors[0].constraints).to.have.keys(["minLength"]);
+            expect(companyErrors).to.be.eql([]);
+        });
+    });
+
+    it("should validate the given property by validation schema", function() {
+        return validateProperty("propertyValidationSchema", { email: "umed@example.com", password: "short" }, "password").then(errors => {
+            expect(errors.length).to.be.equal(1);
+            expect(errors[0].constraints).to.have.keys(["minLength"]);
+        });
+    });
+
+});
@@ -0,0 +1,216 @@
+import "es6-shim";
+import {
+    Sanitize,
+    SanitizeBlacklist,
+    SanitizeEscape,
+    SanitizeLTrim,
+    SanitizeNested,
+    SanitizeNormalizeEmail,
+    SanitizeRTrim,
+    SanitizeStripLow,
+    SanitizeToInt,
+    SanitizeTrim,
+    SanitizeWhitelist,
+    SanitizerConstraint
+} from "../../src/decorator/decorators";
+import {SanitizerConstraintInterface} from "../../src/sanitization/SanitizerConstraintInterface";
+import {SanitizationArguments} from "../../src/sanitization/SanitizationArguments";
+import {Sanitizer} from "../../src/sanitization/Sanitizer";
+import {sanitize, sanitizeAsync} from "../../src";
+import {expect} from "chai";
+
+// -------------------------------------------------------------------------
+// Setup
+// -------------------------------------------------------------------------
+
+const sanitizer = new Sanitizer();
+
+@SanitizerConstraint()
+class RepeatSanitizer implements SanitizerConstraintInterface {
+
+    sanitize(value: any, args: SanitizationArguments) {
+        return typeof value === "string" ? value.repeat(args.constraints[0]) : value;
+    }
+
+}
+
+@SanitizerConstraint({ async: true })
+class LookupSanitizer implements SanitizerConstraintInterface {
+
+    sanitize(value: any, args: SanitizationArguments) {
+        return new Promise(resolve => setTimeout(() => resolve(`${args.targetName}.${args.property}:${value}`), 5));
+    }
+
+}
+
+@SanitizerConstraint({ name: "uppercaseLater" })
+class UppercaseLaterSanitizer implements SanitizerConstraintInterface {
+
+    sanitize(value: any) {
+        return Promise.resolve(String(value).toUpperCase());
+    }
+
+}
+
+class Comment {
+
+    @Sanitize(UppercaseLaterSanitizer)
+    @SanitizeTrim()
+    text: string;
+
+}
+
+class Tag {
+
+    @SanitizeTrim()
+    name: string;
+
+}
+
+class Post {
+
+    @SanitizeTrim()
+    @SanitizeEscape()
+    title: string;
+
+    @SanitizeNormalizeEmail()
+    authorEmail: string;
+
+    @SanitizeLTrim("-")
+    @SanitizeRTrim("!")
+    subtitle: string;
+
+    @SanitizeBlacklist("0-9")
+    @SanitizeStripLow()
+    text: string;
+
+    @SanitizeWhitelist("a-z")
+    slug: string;
+
+    @SanitizeToInt()
+    views: any;
+
+    @SanitizeTrim("*", { each: true })
+    keywords: string[];
+
+    @SanitizeNested()
+    tags: Tag[];
+
+    @SanitizeNested()
+    mainTag: Tag;
+
+    @Sanitize(RepeatSanitizer, [2], { groups: ["repeat"] })
+    @SanitizeTrim()
+    code: string;
+
+    @Sanitize(LookupSanitizer)
+    @SanitizeTrim()
+    reference: string;
+
+}
+
+class DetailedPost extends Post {
+
+    @SanitizeTrim()
+    details: string;
+
+}
+
+function createTag(name: string): Tag {
+    const tag = new Tag();
+    tag.name = name;
+    return tag;
+}
+
+function createPost(): Post {
+    return Object.assign(new DetailedPost(), {
+        title: " <b>Hello</b> ",
+        authorEmail: "Umed.Khudoiberdiev@GMAIL.com",
+        subtitle: "--world!!",
+        text: "abc123\u0007",
+        slug: "Hello-World",
+        views: "42",
+        keywords: ["*a*", "b*"],
+        tags: [createTag(" a "), createTag("b ")],
+        mainTag: createTag(" main "),
+        code: " x ",
+        reference: " ref ",
+        details: " details "
+    });
+}
+
+// -------------------------------------------------------------------------
+// Specifications
+// -------------------------------------------------------------------------
+
+describe("sanitization", function() {
+
+    it("should sanitize properties by their decorators", function() {
+        const post = sanitizer.sanitize(createPost()) as DetailedPost;
+        expect(post.title).to.be.equal("&lt;b&gt;Hello&lt;&#x2F;b&gt;");
+        expect(post.authorEmail).to.be.equal("umedkhudoiberdiev@gmail.com");
+        expect(post.subtitle).to.be.equal("world");
+        expect(post.text).to.be.equal("abc");
+        expect(post.slug).to.be.equal("elloorld");
+        expect(post.views).to.be.equal(42);
+        expect(post.details).to.be.equal("details");
+    });
+
+    it("should sanitize each item and nested objects", function() {
+        const post = sanitizer.sanitize(createPost());
+        expect(post.keywords).to.be.eql(["a", "b"]);
+        expect(post.tags.map(tag => tag.name)).to.be.eql(["a", "b"]);
+        expect(post.mainTag.name).to.be.equal("main");
+    });
+
+    it("should apply custom sanitizers of the given groups", function() {
+        expect(sanitizer.sanitize(createPost()).code).to.be.equal("xx");
+        expect(sanitizer.sanitize(createPost(), { groups: ["repeat"] }).code).to.be.equal(" x  x ");
+        expect(sanitizer.sanitize(createPost(), { groups: ["other"] }).code).to.be.equal(" x ");
+    });
+
+    it("should ignore async sanitizers in sync sanitization", function() {
+        expect(sanitize(createPost()).reference).to.be.equal("ref");
+    });
+
+    it("should warn about sanitizers returning a promise in sync sanitization and leave the value", function() {
+        const warn = console.warn;
+        const warnings: any[] = [];
+        console.warn = (...args: any[]) => warnings.push(args);
+        try {
+            const comment = sanitizer.sanitize(Object.assign(new Comment(), { text: " hi " }));
+            expect(comment.text).to.be.equal("hi");
+        } finally {
+            console.warn = warn;
+        }
+        expect(warnings).to.be.eql([[`Sanitizer "uppercaseLater" of Comment.text is not marked as async, but returned a promise, ` +
+            `which can't be awaited by sync sanitization.`]]);
+    });
+
+    it("should throw in sync sanitization when async mode is error", function() {
+        expect(() => sanitizer.sanitize(createPost(), { asyncMode: "error" }))
+            .to.throw(`Async sanitizer "LookupSanitizer" of DetailedPost.reference can't be performed by sync sanitization.`);
+        expect(() => sanitizer.sanitize(Object.assign(new Comment(), { text: "hi" }), { asyncMode: "error" }))
+            .to.throw(`Sanitizer "uppercaseLater" of Comment.text is not marked as async`);
+    });
+
+    it("should wait for sanitizers returning a promise in async sanitization", function() {
+        return sanitizeAsync(Object.assign(new Comment(), { text: " hi " })).then(comment => {
+            expect(comment.text).to.be.equal("HI");
+        });
+    });
+
+    it("should wait for async sanitizers", function() {
+        return sanitizeAsync(createPost()).then(post => {
+            expect(post.reference).to.be.equal("DetailedPost.reference:ref");
+        });
+    });
+
+    it("should not change values which are not strings", function() {
+        const post = Object.assign(new Post(), { title: 1, keywords: "a*" });
+        sanitizer.sanitize(post);
+        expect(post.title).to.be.equal(1);
+        expect(post.keywords).to.be.equal("a");
+    });
+
+});
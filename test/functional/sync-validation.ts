@@ -3,10 +3,10 @@ import {Validator} from "../../src/validation/Validator";
 import {ValidationArguments} from "../../src/validation/ValidationArguments";
 import {registerDecorator} from "../../src/register-decorator";
 import {ValidationOptions} from "../../src/decorator/ValidationOptions";
-import {ValidatorConstraint, Validate, IsNotEmpty} from "../../src/decorator/decorators";
+import {ValidatorConstraint, Validate, ValidateClass, IsNotEmpty} from "../../src/decorator/decorators";
 import {ValidatorConstraintInterface} from "../../src/validation/ValidatorConstraintInterface";
 
-import {should, use } from "chai";
+import {expect, should, use} from "chai";
 
 import * as chaiAsPromised from "chai-as-promised";
 
@@ -89,4 +89,126 @@ describe("sync validation", function() {
 
     });
 
+    describe("async mode", function() {
+
+        @ValidatorConstraint({ name: "isUniqueLogin", async: true })
+        class IsUniqueLoginConstraint implements ValidatorConstraintInterface {
+
+            validate(value: any) {
+                return Promise.resolve(false);
+            }
+
+        }
+
+        @ValidatorConstraint({ name: "isKnownLogin" })
+        class IsKnownLoginConstraint implements ValidatorConstraintInterface {
+
+            validate(value: any): any {
+                return Promise.resolve(false);
+            }
+
+        }
+
+        @ValidatorConstraint({ name: "hasUniqueEmail", async: true })
+        class HasUniqueEmailConstraint implements ValidatorConstraintInterface {
+
+            validate(value: any) {
+                return Promise.resolve(false);
+            }
+
+        }
+
+        @ValidatorConstraint({ name: "isAllowedLogin" })
+        class IsAllowedLoginConstraint implements ValidatorConstraintInterface {
+
+            validate(value: any): any {
+                return Promise.reject(new Error("login service is not available"));
+            }
+
+        }
+
+        class Registration {
+            @Validate(IsUniqueLoginConstraint)
+            login: string = "umed";
+        }
+
+        @ValidateClass(IsAllowedLoginConstraint)
+        class Session {
+            @Validate(IsAllowedLoginConstraint)
+            login: string = "umed";
+
+            @Validate(IsAllowedLoginConstraint, { each: true })
+            logins: string[] = ["umed", "pleerock"];
+        }
+
+        class Login {
+            @Validate(IsKnownLoginConstraint, { each: true })
+            logins: string[] = ["umed"];
+        }
+
+        @ValidateClass(HasUniqueEmailConstraint)
+        class Account {
+        }
+
+        function withWarnings(callback: () => void): string[] {
+            const warnings: string[] = [];
+            const originalWarn = console.warn;
+            console.warn = (message: string) => warnings.push(message);
+            try {
+                callback();
+            } finally {
+                console.warn = originalWarn;
+            }
+            return warnings;
+        }
+
+        it("should ignore async constraints by default", function() {
+            const warnings = withWarnings(() => {
+                expect(validator.validateSync(new Registration())).to.be.eql([]);
+                expect(validator.validateSync(new Login(), { asyncMode: "ignore" })).to.be.eql([]);
+            });
+            expect(warnings).to.be.eql([]);
+        });
+
+        it("should throw an error naming the class, property and constraint", function() {
+            expect(() => validator.validateSync(new Registration(), { asyncMode: "error" }))
+                .to.throw(`Async constraint "isUniqueLogin" of Registration.login can't be performed by sync validation.`);
+            expect(() => validator.validateSync(new Account(), { asyncMode: "error" }))
+                .to.throw(`Async constraint "hasUniqueEmail" of Account can't be performed by sync validation.`);
+        });
+
+        it("should detect constraints which are not marked as async, but return promises", function() {
+            expect(() => validator.validateSync(new Login(), { asyncMode: "error" }))
+                .to.throw(`Constraint "isKnownLogin" of Login.logins is not marked as async, but returned a promise, which can't be awaited by sync validation.`);
+        });
+
+        it("should warn about skipped async constraints", function() {
+            const warnings = withWarnings(() => {
+                expect(validator.validateSync(new Registration(), { asyncMode: "warn" })).to.be.eql([]);
+            });
+            expect(warnings).to.be.eql([`Async constraint "isUniqueLogin" of Registration.login can't be performed by sync validation.`]);
+        });
+
+        it("should not report rejections of the skipped constraints as unhandled", function() {
+            const rejections: any[] = [];
+            const onUnhandledRejection = (reason: any) => rejections.push(reason);
+            process.on("unhandledRejection", onUnhandledRejection);
+            const warnings = withWarnings(() => {
+                expect(validator.validateSync(new Session(), { asyncMode: "warn" })).to.be.eql([]);
+            });
+            expect(warnings.length).to.be.equal(3);
+            return new Promise(resolve => setTimeout(resolve, 10)).then(() => {
+                process.removeListener("unhandledRejection", onUnhandledRejection);
+                expect(rejections).to.be.eql([]);
+            });
+        });
+
+        it("should not affect async validation", function() {
+            return validator.validate(new Registration(), { asyncMode: "error" }).then(errors => {
+                expect(errors[0].constraints).to.have.keys(["isUniqueLogin"]);
+            });
+        });
+
+    });
+
 });
@@ -0,0 +1,122 @@
+import "es6-shim";
+import {IsNotEmpty, MinLength, Validate, ValidateBy, ValidateClass, ValidateIf, ValidatorConstraint} from "../../src/decorator/decorators";
+import {ValidatorConstraintInterface} from "../../src/validation/ValidatorConstraintInterface";
+import {ValidationArguments} from "../../src/validation/ValidationArguments";
+import {Validator} from "../../src/validation/Validator";
+import {registerConstraint} from "../../src";
+import {expect} from "chai";
+
+// -------------------------------------------------------------------------
+// Setup
+// -------------------------------------------------------------------------
+
+const validator = new Validator();
+
+/**
+ * Simulates database transaction, which sees users inserted inside of it.
+ */
+class Transaction {
+
+    constructor(public logins: string[]) {
+    }
+
+    hasLogin(login: string): Promise<boolean> {
+        return new Promise<boolean>(resolve => setTimeout(() => resolve(this.logins.indexOf(login) !== -1), 5));
+    }
+
+}
+
+@ValidatorConstraint({ name: "isUniqueLogin", async: true })
+class IsUniqueLoginConstraint implements ValidatorConstraintInterface {
+
+    validate(login: string, args: ValidationArguments) {
+        return args.context.transaction.hasLogin(login).then((exists: boolean) => !exists);
+    }
+
+    defaultMessage(args: ValidationArguments) {
+        return `login "${args.value}" is already taken in tenant ${args.context.tenant}`;
+    }
+
+}
+
+@ValidatorConstraint({ name: "isTenantMember" })
+class IsTenantMemberConstraint implements ValidatorConstraintInterface {
+
+    validate(user: User, args: ValidationArguments) {
+        return user.tenant === args.context.tenant;
+    }
+
+}
+
+registerConstraint({
+    name: "isAllowedRole",
+    validate: (value, args) => args.context.roles.indexOf(value) !== -1,
+    defaultMessage: "$property is not allowed"
+});
+
+@ValidateClass(IsTenantMemberConstraint, { message: "user must belong to the current tenant" })
+class User {
+
+    tenant: string;
+
+    @Validate(IsUniqueLoginConstraint)
+    login: string;
+
+    @ValidateBy("isAllowedRole")
+    role: string;
+
+    @ValidateIf((user, value, context) => context.tenant !== "public")
+    @IsNotEmpty()
+    @MinLength(3, { message: (args: ValidationArguments) => `${args.property} must be longer in tenant ${args.context.tenant}` })
+    department: string;
+
+}
+
+function createUser(login: string, role: string = "member", department: string = "sales"): User {
+    return Object.assign(new User(), { tenant: "acme", login: login, role: role, department: department });
+}
+
+function createContext(tenant: string = "acme", logins: string[] = []) {
+    return { tenant: tenant, roles: ["member", "admin"], transaction: new Transaction(logins) };
+}
+
+// -------------------------------------------------------------------------
+// Specifications
+// -------------------------------------------------------------------------
+
+describe("validation context", function() {
+
+    it("should pass the context to the custom constraints and their messages", function() {
+        return validator.validate(createUser("john"), { context: createContext("acme", ["john"]) }).then(errors => {
+            expect(errors.map(error => error.constraints)).to.be.eql([
+                { isUniqueLogin: `login "john" is already taken in tenant acme` }
+            ]);
+        });
+    });
+
+    it("should pass the context to the class-level constraints", function() {
+        return validator.validate(createUser("john"), { context: createContext("globex") }).then(errors => {
+            expect(errors.map(error => error.constraints)).to.be.eql([
+                { isTenantMember: "user must belong to the current tenant" }
+            ]);
+        });
+    });
+
+    it("should pass the context to the registered constraints", function() {
+        const errors = validator.validateSync(createUser("john", "owner"), { context: createContext() });
+        expect(errors.map(error => error.constraints)).to.be.eql([{ isAllowedRole: "role is not allowed" }]);
+    });
+
+    it("should pass the context to the message functions", function() {
+        const errors = validator.validateSync(createUser("john", "member", "it"), { context: createContext() });
+        expect(errors.map(error => error.constraints)).to.be.eql([{ minLength: "department must be longer in tenant acme" }]);
+    });
+
+    it("should pass the context to the conditions", function() {
+        const user = Object.assign(createUser("john"), { tenant: "public", department: "" });
+        expect(validator.validateSync(user, { context: createContext("public") })).to.be.eql([]);
+        expect(validator.validateSync(user, { context: createContext("acme") }).map(error => error.property))
+            .to.be.eql(["department", undefined]);
+    });
+
+});
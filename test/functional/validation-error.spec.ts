@@ -1,5 +1,6 @@
 import "es6-shim";
 import { IsNotEmpty, IsString, IsUrl, IsOptional, ValidateNested, MinLength } from "../../src/decorator/decorators";
+import { flattenErrors } from "../../src";
 import { Validator } from "../../src/validation/Validator";
 import { expect } from "chai";
 
@@ -65,7 +66,7 @@ describe("ValidationError", function  () {
     const validationErrors = await validator.validate(new RootClass());
 
     validationErrors[0].toString().should.be.equal("An instance of RootClass has failed the validation:\n" +
-      " - property title has failed the following constraints: minLength, isString \n");
+      " - property title has failed the following constraints: isString, minLength \n");
 
     validationErrors[1].toString().should.be.equal("An instance of RootClass has failed the validation:\n" +
       " - property nestedObj.name has failed the following constraints: isString \n" +
@@ -80,4 +81,124 @@ describe("ValidationError", function  () {
       " - property nestedArr[1].url has failed the following constraints: isUrl \n");
   });
 
+  describe("issues", function () {
+    class User {
+      @MinLength(8)
+      @IsString()
+      public password: string;
+
+      @IsOptional()
+      @ValidateNested()
+      public friend: User;
+    }
+
+    it("should contain failed constraints in a structured form", async function () {
+      const user = new User();
+      user.password = "secret";
+
+      const validationErrors = await validator.validate(user);
+
+      expect(validationErrors[0].issues).to.be.eql([{
+        code: "minLength",
+        message: "password must be longer than or equal to 8 characters",
+        constraints: [8],
+        value: "secret",
+        path: "password"
+      }]);
+    });
+
+    it("should not expose value if validationError.value option is false", async function () {
+      const user = new User();
+      user.password = 12345678 as any;
+
+      const validationErrors = await validator.validate(user, { validationError: { value: false } });
+
+      expect(validationErrors[0].issues).to.be.eql([
+        { code: "isString", message: "password must be a string", constraints: [], path: "password" },
+        { code: "minLength", message: "password must be longer than or equal to 8 characters", constraints: [8], path: "password" }
+      ]);
+    });
+
+    it("should not contain issues if only nested values failed", async function () {
+      const user = new User();
+      user.password = "long enough";
+      user.friend = new User();
+
+      const validationErrors = await validator.validate(user);
+
+      expect(validationErrors[0]).to.not.have.property("issues");
+      expect(validationErrors[0].children[0].issues.map(issue => issue.code)).to.be.eql(["isString", "minLength"]);
+    });
+  });
+
+  describe("path", function () {
+    class OrderItem {
+      @IsString()
+      public sku: string;
+    }
+
+    class Order {
+      @ValidateNested()
+      public items: OrderItem[];
+
+      @IsOptional()
+      @IsString()
+      public "note/internal": string;
+    }
+
+    class Customer {
+      @IsString()
+      public name: string;
+
+      @ValidateNested()
+      public orders: Order[];
+    }
+
+    function createCustomer(): Customer {
+      const item = new OrderItem();
+      item.sku = "A-1";
+      const invalidItem = new OrderItem();
+      invalidItem.sku = 1 as any;
+      const order = new Order();
+      order.items = [item];
+      const invalidOrder = new Order();
+      invalidOrder.items = [item, invalidItem];
+      invalidOrder["note/internal"] = 2 as any;
+
+      const customer = new Customer();
+      customer.name = 3 as any;
+      customer.orders = [order, invalidOrder];
+      return customer;
+    }
+
+    it("should contain full path and JSON pointer of every error", async function () {
+      const validationErrors = await validator.validate(createCustomer());
+
+      const orderError = validationErrors[1].children[0];
+      const itemError = orderError.children[0].children[0];
+      expect(validationErrors.map(error => error.path)).to.be.eql(["name", "orders"]);
+      expect(orderError.path).to.be.equal("orders[1]");
+      expect(orderError.pointer).to.be.equal("/orders/1");
+      expect(itemError.path).to.be.equal("orders[1].items[1]");
+      expect(itemError.children[0].path).to.be.equal("orders[1].items[1].sku");
+      expect(itemError.children[0].pointer).to.be.equal("/orders/1/items/1/sku");
+      expect(itemError.children[0].issues[0].path).to.be.equal("orders[1].items[1].sku");
+    });
+
+    it("should escape JSON pointer tokens", async function () {
+      const validationErrors = await validator.validate(createCustomer());
+
+      expect(validationErrors[1].children[0].children[1].path).to.be.equal("orders[1].note/internal");
+      expect(validationErrors[1].children[0].children[1].pointer).to.be.equal("/orders/1/note~1internal");
+    });
+
+    it("should flatten errors to the list of failed properties", async function () {
+      const validationErrors = await validator.validate(createCustomer());
+
+      const flattened = flattenErrors(validationErrors);
+      expect(flattened.map(error => error.path)).to.be.eql(["name", "orders[1].items[1].sku", "orders[1].note/internal"]);
+      expect(flattened.map(error => error.pointer)).to.be.eql(["/name", "/orders/1/items/1/sku", "/orders/1/note~1internal"]);
+    });
+  });
+
 });
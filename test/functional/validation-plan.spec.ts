@@ -0,0 +1,225 @@
+import "es6-shim";
+import {IsInt, IsOptional, IsString, Max, MaxLength, Min, MinLength, Validate, ValidateNested, ValidatorConstraint} from "../../src/decorator/decorators";
+import {ValidatorConstraintInterface} from "../../src/validation/ValidatorConstraintInterface";
+import {MetadataStorage} from "../../src/metadata/MetadataStorage";
+import {ValidationPlan} from "../../src/validation/ValidationPlan";
+import {Validator} from "../../src/validation/Validator";
+import {getFromContainer} from "../../src/container";
+import {expect} from "chai";
+
+// -------------------------------------------------------------------------
+// Setup
+// -------------------------------------------------------------------------
+
+const metadataStorage = new MetadataStorage();
+const validator = new Validator(metadataStorage);
+
+@ValidatorConstraint({ name: "isSku" })
+class IsSkuConstraint implements ValidatorConstraintInterface {
+
+    validate(value: any) {
+        return typeof value === "string" && /^[A-Z]{3}-\d+$/.test(value);
+    }
+
+}
+
+class OrderLine {
+
+    @Validate(IsSkuConstraint, { metadataStorage: metadataStorage })
+    sku: string;
+
+    @IsInt({ metadataStorage: metadataStorage })
+    @Min(1, { metadataStorage: metadataStorage })
+    @Max(100, { metadataStorage: metadataStorage })
+    quantity: number;
+
+}
+
+class Order {
+
+    @IsString({ metadataStorage: metadataStorage })
+    @MinLength(3, { metadataStorage: metadataStorage })
+    customer: string;
+
+    @ValidateNested({ metadataStorage: metadataStorage })
+    lines: OrderLine[];
+
+}
+
+function createOrder(customer: string, lines: [string, number][]): Order {
+    return Object.assign(new Order(), {
+        customer: customer,
+        lines: lines.map(([sku, quantity]) => Object.assign(new OrderLine(), { sku: sku, quantity: quantity }))
+    });
+}
+
+/**
+ * Measures how long the given function runs for the given number of times, in milliseconds.
+ */
+function measure(times: number, fn: () => void): number {
+    const start = process.hrtime();
+    for (let i = 0; i < times; i++)
+        fn();
+    const [seconds, nanoseconds] = process.hrtime(start);
+    return seconds * 1e3 + nanoseconds / 1e6;
+}
+
+// -------------------------------------------------------------------------
+// Specifications
+// -------------------------------------------------------------------------
+
+describe("validation plan", function() {
+
+    it("should reuse the plan of the same class, schema and groups", function() {
+        const plan = metadataStorage.getValidationPlan(OrderLine, undefined);
+        expect(metadataStorage.getValidationPlan(OrderLine, undefined)).to.be.equal(plan);
+        expect(metadataStorage.getValidationPlan(OrderLine, undefined, ["retail"])).not.to.be.equal(plan);
+        expect(metadataStorage.getValidationPlan(OrderLine, undefined, ["retail"])).to.be.equal(
+            metadataStorage.getValidationPlan(OrderLine, undefined, ["retail"]));
+    });
+
+    it("should group and sort metadatas of the properties", function() {
+        const plan = metadataStorage.getValidationPlan(OrderLine, undefined);
+        expect(Object.keys(plan.properties)).to.be.eql(["sku", "quantity"]);
+        expect(plan.properties.quantity.metadatas.map(metadata => metadata.type)).to.be.eql(["isInt", "max", "min"]);
+        expect(plan.properties.sku.customMetadatas.length).to.be.equal(1);
+        expect(plan.classMetadatas).to.be.eql([]);
+    });
+
+    it("should create new plan when metadata is added", function() {
+        const storage = new MetadataStorage();
+        class Product {
+            @MaxLength(5, { metadataStorage: storage })
+            name: string;
+        }
+        const product = Object.assign(new Product(), { name: "" });
+        const plan = storage.getValidationPlan(Product, undefined);
+        expect(new Validator(storage).validateSync(product)).to.be.eql([]);
+
+        MinLength(1, { metadataStorage: storage })(Product.prototype, "name");
+        expect(storage.getValidationPlan(Product, undefined)).not.to.be.equal(plan);
+        expect(new Validator(storage).validateSync(product).map(error => Object.keys(error.constraints))).to.be.eql([["minLength"]]);
+    });
+
+    it("should create new plans of the subclasses only when metadata is added", function() {
+        const storage = new MetadataStorage();
+        class Product {
+            @MaxLength(5, { metadataStorage: storage })
+            name: string;
+        }
+        class Book extends Product {
+        }
+        class Category {
+            @MaxLength(5, { metadataStorage: storage })
+            name: string;
+        }
+        const bookPlan = storage.getValidationPlan(Book, undefined);
+        const categoryPlan = storage.getValidationPlan(Category, undefined);
+
+        MinLength(1, { metadataStorage: storage })(Product.prototype, "name");
+        expect(storage.getValidationPlan(Book, undefined)).not.to.be.equal(bookPlan);
+        expect(storage.getValidationPlan(Book, undefined).properties.name.metadatas.length).to.be.equal(2);
+        expect(storage.getValidationPlan(Category, undefined)).to.be.equal(categoryPlan);
+    });
+
+    it("should create new plan when schema is registered", function() {
+        const storage = new MetadataStorage();
+        storage.addValidationSchema({ name: "plan-base", properties: { name: [{ type: "minLength", constraints: [3] }] } });
+        storage.addValidationSchema({ name: "plan-child", properties: {} });
+        expect(new Validator(storage).validateSync("plan-child", { name: "ab" })).to.be.eql([]);
+
+        storage.addValidationSchema({ name: "plan-child", extends: ["plan-base"], properties: {} });
+        expect(new Validator(storage).validateSync("plan-child", { name: "ab" }).map(error => error.property)).to.be.eql(["name"]);
+    });
+
+    it("should not change the cached plan when only some properties are validated", function() {
+        const order = createOrder("jo", [["abc", 0]]);
+        const errors = validator.validateSync(order, { properties: ["lines.0.sku"] });
+        expect(errors[0].children[0].children.map(error => error.path)).to.be.eql(["lines[0].sku"]);
+        expect(validator.validateSync(order).map(error => error.property)).to.be.eql(["customer", "lines"]);
+    });
+
+    it("should find the cached plan without filtering metadatas again", function() {
+        const getTargetValidationMetadatas = metadataStorage.getTargetValidationMetadatas;
+        let filteringsCount = 0;
+        metadataStorage.getTargetValidationMetadatas = function(...args: any[]) {
+            filteringsCount++;
+            return getTargetValidationMetadatas.apply(this, args);
+        };
+        try {
+            metadataStorage.getValidationPlan(Order, undefined);
+            filteringsCount = 0;
+            for (let i = 0; i < 10; i++)
+                metadataStorage.getValidationPlan(Order, undefined);
+        } finally {
+            metadataStorage.getTargetValidationMetadatas = getTargetValidationMetadatas;
+        }
+        expect(filteringsCount).to.be.equal(0);
+    });
+
+    it("should validate the same way with the cached plan", function() {
+        const order = createOrder("jo", [["ABC-1", 1], ["abc", 500]]);
+        const firstErrors = validator.validateSync(order);
+        const secondErrors = validator.validateSync(order);
+        expect(secondErrors).to.be.eql(firstErrors);
+        expect(secondErrors[1].children[0].children.map(error => Object.keys(error.constraints))).to.be.eql([["isSku"], ["max"]]);
+    });
+
+    // benchmarks only measure the performance, so they are run only if the BENCHMARK environment variable is set
+    (process.env.BENCHMARK ? describe : describe.skip)("benchmark", function() {
+
+        this.timeout(20000);
+
+        // plans of the default storage are built from the metadatas registered by all the specs, as in real applications
+        const defaultStorage = getFromContainer(MetadataStorage);
+        const defaultValidator = new Validator();
+
+        class Address {
+
+            @IsString()
+            @MaxLength(50)
+            street: string;
+
+            @IsOptional()
+            @IsInt()
+            @Min(0)
+            number: number;
+
+        }
+
+        class Customer {
+
+            @IsString()
+            @MinLength(2)
+            @MaxLength(30)
+            name: string;
+
+            @ValidateNested()
+            addresses: Address[];
+
+        }
+
+        function createCustomer(): Customer {
+            const address = Object.assign(new Address(), { street: "Main Street", number: 1 });
+            return Object.assign(new Customer(), { name: "John", addresses: [address, address] });
+        }
+
+        it("should measure creating and finding the cached plans", function() {
+            const times = 2000;
+            defaultStorage.getValidationPlan(Customer, undefined);
+            const cachedTime = measure(times, () => defaultStorage.getValidationPlan(Customer, undefined));
+            const createdTime = measure(times, () => new ValidationPlan(defaultStorage.getTargetValidationMetadatas(Customer, undefined)));
+            console.log(`        plan: ${(createdTime / times).toFixed(4)} ms created, ${(cachedTime / times).toFixed(4)} ms cached`);
+        });
+
+        it("should validate objects with cached plans", function() {
+            const times = 1000;
+            const customer = createCustomer();
+            expect(defaultValidator.validateSync(customer)).to.be.eql([]);
+            const time = measure(times, () => defaultValidator.validateSync(customer));
+            console.log(`        validation: ${Math.round(times / time * 1000)} objects per second`);
+        });
+
+    });
+
+});
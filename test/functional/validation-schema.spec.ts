@@ -0,0 +1,93 @@
+import "es6-shim";
+import {registerSchema} from "../../src";
+import {Validator} from "../../src/validation/Validator";
+import {expect} from "chai";
+
+// -------------------------------------------------------------------------
+// Setup
+// -------------------------------------------------------------------------
+
+const validator = new Validator();
+
+registerSchema({
+    name: "schemaEntity",
+    properties: {
+        id: [{ type: "isInt" }, { type: "min", constraints: [1] }]
+    }
+});
+
+registerSchema({
+    name: "schemaNamedEntity",
+    extends: ["schemaEntity"],
+    properties: {
+        name: [{ type: "minLength", constraints: [3] }],
+        id: [{ type: "min", constraints: [10] }]
+    }
+});
+
+registerSchema({
+    name: "schemaAddress",
+    properties: {
+        city: [{ type: "isString" }]
+    }
+});
+
+registerSchema({
+    name: "schemaUser",
+    extends: ["schemaNamedEntity"],
+    properties: {
+        address: [{ type: "nestedValidation", nested: "schemaAddress" }],
+        previousAddresses: [{ type: "nestedValidation", nested: "schemaAddress", each: true }]
+    }
+});
+
+// -------------------------------------------------------------------------
+// Specifications
+// -------------------------------------------------------------------------
+
+describe("validation schema", function() {
+
+    describe("extends", function() {
+
+        it("should validate with validations of the extended schemas", function() {
+            return validator.validate("schemaUser", { id: "1", name: "ab" }).then(errors => {
+                expect(errors.map(error => error.property)).to.be.eql(["name", "id"]);
+                expect(errors[1].constraints).to.be.eql({
+                    min: "id must not be less than 10",
+                    isInt: "id must be an integer number"
+                });
+            });
+        });
+
+        it("should not apply validations of the extending schemas", function() {
+            return validator.validate("schemaEntity", { id: 5, name: "ab" }).then(errors => {
+                expect(errors).to.be.eql([]);
+            });
+        });
+
+    });
+
+    describe("nested", function() {
+
+        it("should validate nested objects using the nested schema", function() {
+            const user = {
+                id: 10,
+                name: "Umed",
+                address: { city: 1 },
+                previousAddresses: [{ city: "Dushanbe" }, { city: 2 }]
+            };
+            return validator.validate("schemaUser", user).then(errors => {
+                expect(errors.length).to.be.equal(2);
+                expect(errors[0].property).to.be.equal("address");
+                expect(errors[0].children[0].property).to.be.equal("city");
+                expect(errors[0].children[0].constraints).to.be.eql({ isString: "city must be a string" });
+                expect(errors[1].property).to.be.equal("previousAddresses");
+                expect(errors[1].children.length).to.be.equal(1);
+                expect(errors[1].children[0].property).to.be.equal("1");
+                expect(errors[1].children[0].children[0].constraints).to.be.eql({ isString: "city must be a string" });
+            });
+        });
+
+    });
+
+});
@@ -1,5 +1,6 @@
 import "es6-shim";
-import {IsNotEmpty} from "../../src/decorator/decorators";
+import {IsNotEmpty, IsString, MinLength, IsDefined, Validate, ValidatorConstraint} from "../../src/decorator/decorators";
+import {ValidatorConstraintInterface} from "../../src/validation/ValidatorConstraintInterface";
 import {Validator} from "../../src/validation/Validator";
 import {expect} from "chai";
 
@@ -62,5 +63,141 @@ describe("validator options", function() {
         });
     });
 
+    describe("priority", function() {
+        class Profile {
+            @IsString()
+            @MinLength(5, { priority: 5 })
+            nickname: string;
+        }
+
+        class BaseUser {
+            @IsString()
+            name: string;
+        }
+
+        class User extends BaseUser {
+            @MinLength(5)
+            name: string;
+        }
+
+        it("should perform type checks before other checks by default", function() {
+            class Post {
+                @IsString()
+                @MinLength(5)
+                title: string;
+            }
+
+            const post = new Post();
+            post.title = 1 as any;
+            return validator.validate(post).then(errors => {
+                expect(Object.keys(errors[0].constraints)).to.be.eql(["isString", "minLength"]);
+            });
+        });
+
+        it("should perform validations with lower priority first", function() {
+            const profile = new Profile();
+            profile.nickname = 1 as any;
+            return validator.validate(profile, { stopAtFirstError: true }).then(errors => {
+                expect(Object.keys(errors[0].constraints)).to.be.eql(["minLength"]);
+            });
+        });
+
+        it("should report inherited validations in the same order", function() {
+            const user = new User();
+            user.name = 1 as any;
+            const baseUser = new BaseUser();
+            baseUser.name = 1 as any;
+            return Promise.all([validator.validate(user), validator.validate(baseUser)]).then(([userErrors, baseUserErrors]) => {
+                expect(Object.keys(userErrors[0].constraints)).to.be.eql(["isString", "minLength"]);
+                expect(Object.keys(baseUserErrors[0].constraints)).to.be.eql(["isString"]);
+            });
+        });
+    });
+
+    describe("stop at first error", function() {
+        const checkedValues: string[] = [];
+
+        @ValidatorConstraint({ name: "isUniqueLogin", async: true })
+        class IsUniqueLoginConstraint implements ValidatorConstraintInterface {
+            validate(value: any) {
+                checkedValues.push(value);
+                return new Promise<boolean>(resolve => setTimeout(() => resolve(value !== "taken"), 5));
+            }
+        }
+
+        class Account {
+            @Validate(IsUniqueLoginConstraint)
+            @MinLength(5)
+            @IsString()
+            login: string;
+
+            @Validate(IsUniqueLoginConstraint)
+            @MinLength(5, { bail: true })
+            nickname: string;
+
+            @IsString()
+            @IsDefined()
+            email: string;
+        }
+
+        function createAccount(login: any, nickname: any, email?: any): Account {
+            const account = new Account();
+            account.login = login;
+            account.nickname = nickname;
+            account.email = email;
+            return account;
+        }
+
+        beforeEach(function() {
+            checkedValues.length = 0;
+        });
+
+        it("should validate all constraints by default", function() {
+            return validator.validate(createAccount(1, "ab")).then(errors => {
+                expect(errors.map(error => Object.keys(error.constraints))).to.be.eql([
+                    ["isString", "minLength"],
+                    ["minLength"],
+                    ["isDefined", "isString"]
+                ]);
+                expect(checkedValues).to.be.eql([1]);
+            });
+        });
+
+        it("should skip remaining constraints of the property if stopAtFirstError is set", function() {
+            return validator.validate(createAccount(1, "taken", "email"), { stopAtFirstError: true }).then(errors => {
+                expect(errors.map(error => Object.keys(error.constraints))).to.be.eql([["isString"], ["isUniqueLogin"]]);
+                expect(checkedValues).to.be.eql(["taken"]);
+            });
+        });
+
+        it("should run async constraints only after the previous constraints passed", function() {
+            return validator.validate(createAccount("taken", "nickname", "email"), { stopAtFirstError: true }).then(errors => {
+                expect(errors.map(error => Object.keys(error.constraints))).to.be.eql([["isUniqueLogin"]]);
+                expect(checkedValues).to.be.eql(["taken", "nickname"]);
+            });
+        });
+
+        it("should skip remaining constraints of the property if failed constraint has bail option", function() {
+            return validator.validate(createAccount("login", "ab", "email")).then(errors => {
+                expect(errors.map(error => Object.keys(error.constraints))).to.be.eql([["minLength"]]);
+                expect(checkedValues).to.be.eql(["login"]);
+            });
+        });
+
+        it("should skip remaining properties if stopAtFirstInvalidProperty is set", function() {
+            return validator.validate(createAccount("taken", "ab"), { stopAtFirstInvalidProperty: true }).then(errors => {
+                expect(errors.map(error => error.property)).to.be.eql(["login"]);
+                expect(errors[0].constraints).to.have.keys(["isUniqueLogin"]);
+                expect(checkedValues).to.be.eql(["taken"]);
+            });
+        });
+
+        it("should validate all properties if stopAtFirstInvalidProperty is set and all of them are valid", function() {
+            return validator.validate(createAccount("login", "nickname", "email"), { stopAtFirstInvalidProperty: true }).then(errors => {
+                expect(errors).to.be.eql([]);
+                expect(checkedValues).to.be.eql(["login", "nickname"]);
+            });
+        });
+    });
 
 });